@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+// Loads reference foods into public.foods from public data dumps.
+//
+//   node scripts/import-foods.mjs usda <dir>   FoodData Central CSV download (food.csv, nutrient.csv, ...)
+//   node scripts/import-foods.mjs off <file>   Open Food Facts products CSV (tab-separated)
+//
+// Options: --limit N (stop after N foods), --usda-types a,b (FDC data_type values,
+// default foundation_food,sr_legacy_food,survey_fndds_food).
+// Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; re-running updates rows in place.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { createClient } from '@supabase/supabase-js';
+
+const BATCH_SIZE = 500;
+
+// FDC nutrient numbers -> foods columns / registry keys (units already match)
+const USDA_NUTRIENTS = {
+  208: 'calories',
+  203: 'protein',
+  205: 'carbs',
+  204: 'fat',
+  291: 'fiber',
+  320: 'vita_mcg',
+  401: 'vitc_mg',
+  328: 'vitd_mcg',
+  323: 'vite_mg',
+  430: 'vitk_mcg',
+  404: 'b1_mg',
+  405: 'b2_mg',
+  406: 'b3_mg',
+  415: 'b6_mg',
+  418: 'b12_mcg',
+  435: 'fol_mcg',
+  301: 'ca_mg',
+  303: 'fe_mg',
+  304: 'mg_mg',
+  305: 'p_mg',
+  306: 'k_mg',
+  309: 'zn_mg',
+  317: 'se_mcg',
+  307: 'na_mg',
+  601: 'chol_mg',
+};
+
+// Foundation foods often only report Atwater energy
+const USDA_ENERGY_FALLBACKS = [958, 957];
+
+// Open Food Facts reports micronutrients in grams per 100 g
+const OFF_NUTRIENTS = {
+  'energy-kcal_100g': ['calories', 1],
+  'proteins_100g': ['protein', 1],
+  'carbohydrates_100g': ['carbs', 1],
+  'fat_100g': ['fat', 1],
+  'fiber_100g': ['fiber', 1],
+  'vitamin-a_100g': ['vita_mcg', 1e6],
+  'vitamin-c_100g': ['vitc_mg', 1e3],
+  'vitamin-d_100g': ['vitd_mcg', 1e6],
+  'vitamin-e_100g': ['vite_mg', 1e3],
+  'vitamin-k_100g': ['vitk_mcg', 1e6],
+  'vitamin-b1_100g': ['b1_mg', 1e3],
+  'vitamin-b2_100g': ['b2_mg', 1e3],
+  'vitamin-pp_100g': ['b3_mg', 1e3],
+  'vitamin-b6_100g': ['b6_mg', 1e3],
+  'vitamin-b12_100g': ['b12_mcg', 1e6],
+  'vitamin-b9_100g': ['fol_mcg', 1e6],
+  'calcium_100g': ['ca_mg', 1e3],
+  'iron_100g': ['fe_mg', 1e3],
+  'magnesium_100g': ['mg_mg', 1e3],
+  'phosphorus_100g': ['p_mg', 1e3],
+  'potassium_100g': ['k_mg', 1e3],
+  'zinc_100g': ['zn_mg', 1e3],
+  'selenium_100g': ['se_mcg', 1e6],
+  'sodium_100g': ['na_mg', 1e3],
+  'cholesterol_100g': ['chol_mg', 1e3],
+};
+
+const MACRO_COLUMNS = new Set(['calories', 'protein', 'carbs', 'fat', 'fiber']);
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Minimal RFC 4180 line splitter; FDC files quote every field
+const splitCsvLine = (line) => {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+// Yields each data row as an object keyed by the header
+async function* readRows(file, split) {
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  let header = null;
+  for await (const line of lines) {
+    if (!line) continue;
+    const fields = split(line);
+    if (!header) {
+      header = fields;
+      continue;
+    }
+    const row = {};
+    header.forEach((name, i) => { row[name] = fields[i] ?? ''; });
+    yield row;
+  }
+}
+
+const toFoodRow = (source, sourceId, name, brand, amounts, serving) => {
+  const row = {
+    source,
+    source_id: sourceId,
+    name: name.trim(),
+    brand: brand?.trim() || null,
+    calories: null,
+    protein: null,
+    carbs: null,
+    fat: null,
+    fiber: null,
+    micronutrients: {},
+    serving_g: serving?.grams ? round2(serving.grams) : null,
+    serving_desc: serving?.desc || null,
+  };
+  for (const [key, value] of Object.entries(amounts)) {
+    if (MACRO_COLUMNS.has(key)) row[key] = round2(value);
+    else row.micronutrients[key] = round2(value);
+  }
+  return row;
+};
+
+async function* usdaFoods(dir, types, limit) {
+  const csv = (name) => path.join(dir, name);
+
+  const nutrientNumbers = new Map();
+  for await (const row of readRows(csv('nutrient.csv'), splitCsvLine)) {
+    nutrientNumbers.set(row.id, Number(row.nutrient_nbr));
+  }
+
+  const foods = new Map();
+  for await (const row of readRows(csv('food.csv'), splitCsvLine)) {
+    if (!types.has(row.data_type)) continue;
+    foods.set(row.fdc_id, { name: row.description, amounts: {}, energyFallback: null });
+    if (limit && foods.size >= limit) break;
+  }
+  console.log(`USDA: ${foods.size} foods selected`);
+
+  for await (const row of readRows(csv('food_nutrient.csv'), splitCsvLine)) {
+    const food = foods.get(row.fdc_id);
+    if (!food || row.amount === '') continue;
+    const nbr = nutrientNumbers.get(row.nutrient_id);
+    const amount = Number(row.amount);
+    if (USDA_NUTRIENTS[nbr]) food.amounts[USDA_NUTRIENTS[nbr]] = amount;
+    else if (USDA_ENERGY_FALLBACKS.includes(nbr) && food.energyFallback == null) food.energyFallback = amount;
+  }
+
+  const servings = new Map();
+  const portionsFile = csv('food_portion.csv');
+  if (fs.existsSync(portionsFile)) {
+    for await (const row of readRows(portionsFile, splitCsvLine)) {
+      if (!foods.has(row.fdc_id) || !Number(row.gram_weight)) continue;
+      const seq = Number(row.seq_num) || 0;
+      const current = servings.get(row.fdc_id);
+      if (current && current.seq <= seq) continue;
+      const desc = row.portion_description || [row.amount, row.modifier].filter(Boolean).join(' ');
+      servings.set(row.fdc_id, { seq, grams: Number(row.gram_weight), desc });
+    }
+  }
+
+  for (const [fdcId, food] of foods) {
+    if (food.amounts.calories == null && food.energyFallback != null) food.amounts.calories = food.energyFallback;
+    if (food.amounts.calories == null) continue;
+    yield toFoodRow('usda', fdcId, food.name, null, food.amounts, servings.get(fdcId));
+  }
+}
+
+async function* offFoods(file, limit) {
+  let count = 0;
+  for await (const row of readRows(file, (line) => line.split('\t'))) {
+    const kcal = row['energy-kcal_100g'];
+    if (!row.code || !row.product_name || kcal === '' || kcal == null) continue;
+
+    const amounts = {};
+    for (const [column, [key, factor]] of Object.entries(OFF_NUTRIENTS)) {
+      const value = Number(row[column]);
+      if (row[column] !== '' && row[column] != null && Number.isFinite(value) && value >= 0) amounts[key] = value * factor;
+    }
+    const brand = (row.brands || '').split(',')[0];
+    const serving = { grams: Number(row.serving_quantity) || null, desc: row.serving_size };
+    yield toFoodRow('off', row.code, row.product_name, brand, amounts, serving);
+
+    if (limit && ++count >= limit) break;
+  }
+}
+
+const parseArgs = (argv) => {
+  const args = { positional: [], limit: 0, usdaTypes: 'foundation_food,sr_legacy_food,survey_fndds_food' };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--limit') args.limit = Number(argv[++i]);
+    else if (argv[i] === '--usda-types') args.usdaTypes = argv[++i];
+    else args.positional.push(argv[i]);
+  }
+  return args;
+};
+
+async function main() {
+  const { positional: [source, input], limit, usdaTypes } = parseArgs(process.argv.slice(2));
+  if (!['usda', 'off'].includes(source) || !input) {
+    console.error('Usage: node scripts/import-foods.mjs <usda|off> <path> [--limit N] [--usda-types a,b]');
+    process.exit(1);
+  }
+
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+    process.exit(1);
+  }
+  const supabase = createClient(url, key, { auth: { persistSession: false } });
+
+  const rows = source === 'usda'
+    ? usdaFoods(input, new Set(usdaTypes.split(',')), limit)
+    : offFoods(input, limit);
+
+  let batch = [];
+  let imported = 0;
+  const flush = async () => {
+    if (!batch.length) return;
+    const { error } = await supabase.from('foods').upsert(batch, { onConflict: 'source,source_id' });
+    if (error) throw error;
+    imported += batch.length;
+    console.log(`Imported ${imported} foods`);
+    batch = [];
+  };
+
+  for await (const row of rows) {
+    batch.push(row);
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+  console.log(`Done: ${imported} ${source} foods`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
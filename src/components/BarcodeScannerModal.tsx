@@ -0,0 +1,239 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Minus, Plus, ScanBarcode } from 'lucide-react';
+import type { TokenItem } from '@/lib/meals';
+import { FoodMatch, fetchProductByBarcode, foodLabel } from '@/lib/foods';
+import { BARCODE_FORMATS, barcodeVariants, isValidBarcode, productToItem, servingGrams } from '@/lib/barcodes';
+
+// Shape Detection API; not yet in TypeScript's DOM library
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// How often a video frame is handed to the detector
+const SCAN_INTERVAL_MS = 300;
+
+const SERVING_STEP = 0.5;
+
+interface BarcodeScannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScanned: (item: TokenItem) => void;
+}
+
+const BarcodeScannerModal = ({ isOpen, onClose, onScanned }: BarcodeScannerModalProps) => {
+  const [manualCode, setManualCode] = useState('');
+  const [product, setProduct] = useState<FoodMatch | null>(null);
+  const [servings, setServings] = useState(1);
+  const [looking, setLooking] = useState(false);
+  const [message, setMessage] = useState('');
+  const [cameraReady, setCameraReady] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const lookingRef = useRef(false);
+  const lastScannedRef = useRef(''); // the camera sees the same code many times a second
+
+  const supported = !!getBarcodeDetector();
+
+  const lookup = async (code: string) => {
+    if (lookingRef.current) return;
+    if (!isValidBarcode(code)) {
+      setMessage('That does not appear to be a valid barcode.');
+      return;
+    }
+
+    lookingRef.current = true;
+    setLooking(true);
+    setMessage('');
+    try {
+      const found = await fetchProductByBarcode(barcodeVariants(code));
+      if (found) {
+        setProduct(found);
+        setServings(1);
+      } else {
+        setMessage(`I could not find ${code} in the pantry records. Perhaps describe it by voice instead?`);
+      }
+    } catch (error) {
+      console.error('Error looking up barcode:', error);
+      setMessage('Unable to consult the pantry records just now. Please try again.');
+    } finally {
+      lookingRef.current = false;
+      setLooking(false);
+    }
+  };
+
+  // Camera and detector run only while the dialog is open and nothing is found yet
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!isOpen || product || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setCameraReady(true);
+
+        const detector = new Detector({ formats: BARCODE_FORMATS });
+        timer = setInterval(async () => {
+          if (!videoRef.current || lookingRef.current) return;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            if (barcode && barcode.rawValue !== lastScannedRef.current && isValidBarcode(barcode.rawValue)) {
+              lastScannedRef.current = barcode.rawValue;
+              lookup(barcode.rawValue);
+            }
+          } catch {
+            // Frames that can't be read yet are expected while the camera warms up
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        setMessage('Unable to access the camera. You may type the code instead.');
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      setCameraReady(false);
+    };
+  }, [isOpen, product]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setProduct(null);
+      setManualCode('');
+      lastScannedRef.current = '';
+      setMessage('');
+    }
+  }, [isOpen]);
+
+  // Clears the last code too, so the same product can be scanned again
+  const handleScanAnother = () => {
+    lastScannedRef.current = '';
+    setMessage('');
+    setProduct(null);
+  };
+
+  const handleAdd = () => {
+    if (!product || servings <= 0) return;
+    onScanned(productToItem(product, servings));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-sm w-[92vw] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-butler-heading">Present the Package</DialogTitle>
+          <DialogDescription className="text-butler-body">
+            Hold the barcode up to the camera, or type the digits beneath it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {product ? (
+          <div className="space-y-4">
+            <div className="rounded-lg border border-border/50 p-3">
+              <div className="font-medium">{foodLabel(product)}</div>
+              <div className="text-sm text-muted-foreground">
+                {product.serving_desc || `${servingGrams(product)} g`} per serving
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="servings" className="text-sm font-medium">Servings</Label>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => setServings(Math.max(SERVING_STEP, servings - SERVING_STEP))} aria-label="Fewer servings">
+                  <Minus className="w-4 h-4" />
+                </Button>
+                <Input
+                  id="servings"
+                  type="number"
+                  inputMode="decimal"
+                  min={SERVING_STEP}
+                  step={SERVING_STEP}
+                  value={servings}
+                  onChange={(e) => setServings(Number(e.target.value))}
+                  className="text-center"
+                />
+                <Button variant="outline" size="icon" onClick={() => setServings(servings + SERVING_STEP)} aria-label="More servings">
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {Math.round((Number(product.calories) || 0) * servingGrams(product) * servings / 100)} cal in total
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button variant="outline" onClick={handleScanAnother} className="w-full sm:flex-1">
+                Scan another
+              </Button>
+              <Button onClick={handleAdd} disabled={servings <= 0} className="w-full sm:flex-1 btn-butler">
+                Continue
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {supported ? (
+              <div className="relative aspect-video overflow-hidden rounded-lg bg-muted">
+                <video ref={videoRef} muted playsInline className="h-full w-full object-cover" />
+                {!cameraReady && (
+                  <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                    <ScanBarcode className="w-10 h-10" />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This browser cannot read barcodes from the camera; kindly type the code instead.
+              </p>
+            )}
+
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                lookup(manualCode.trim());
+              }}
+            >
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value.replace(/\D/g, ''))}
+                placeholder="e.g., 5000159484695"
+                inputMode="numeric"
+                aria-label="Barcode digits"
+              />
+              <Button type="submit" disabled={!manualCode || looking}>
+                {looking ? 'Looking...' : 'Look up'}
+              </Button>
+            </form>
+
+            {message && <p className="text-sm text-muted-foreground">{message}</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BarcodeScannerModal;
@@ -1,71 +1,313 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { Check, Edit3 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, Calendar as CalendarIcon, Check, ChefHat, Database, Edit3, HelpCircle, Mic, RefreshCw, Search, Square, Star } from 'lucide-react';
+import { format } from 'date-fns';
 import { useAuth } from '@/hooks/useAuth';
+import { useAudioRecorder } from '@/hooks/useAudioRecorder';
+import { useProfile } from '@/hooks/useProfile';
+import { useTranslation } from '@/hooks/useTranslation';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
-
-// Token-optimized item schema
-export interface TokenItem {
-  qty: string;
-  n: string;
-  cal?: number;
-  p?: number;
-  c?: number;
-  f?: number;
-  fib?: number;
-  // Micronutrients: [abbr]_[unit]
-  [key: string]: string | number | undefined;
-}
+import {
+  TimeHint,
+  fromDateString,
+  fromZonedDateTime,
+  resolveTimeHint,
+  toDateString,
+  toDateStringInTimeZone,
+  toTimeStringInTimeZone,
+} from '@/lib/dates';
+import { ClarifyingQuestion, analyzeText, clarifyItems, transcribePartial } from '@/lib/nutritionApi';
+import { KNOWN_KEYS, MICRONUTRIENT_KEY_PATTERN, Meal, TokenItem, isLowConfidence, mealToTokenItems, toMealItemRows } from '@/lib/meals';
+import { MEAL_TYPES, MealType, isMealType, mealTypeForTime } from '@/lib/mealTypes';
+import { micronutrientName, micronutrientUnit } from '@/lib/micronutrients';
+import { FoodMatch, applyFood, fetchFoods, foodLabel } from '@/lib/foods';
+import FoodSearch from '@/components/FoodSearch';
+import { removeMealPhoto, uploadMealPhoto } from '@/lib/photos';
+import { quantityGrams, rescaleItem } from '@/lib/quantities';
+import { NutritionWarning, checkItems, warningsByItem } from '@/lib/validation';
 
 interface ConfirmationModalProps {
   isOpen: boolean;
   onClose: () => void;
   items: TokenItem[]; // Items from edge function
-  onConfirm: (payload: { items: TokenItem[]; totals?: any }) => void;
+  transcript?: string; // What the user said, stored as the meal description
+  onConfirm: (payload: { items: TokenItem[]; totals?: any }) => void; // Only once the meal and its items are saved
+  meal?: Meal | null; // Existing meal being edited; saves via update instead of insert
+  loggedAt?: string; // ISO capture time for entries logged after the fact; defaults to now
+  defaultDate?: string; // YYYY-MM-DD to log against, e.g. the day selected in the ledger
+  timeHint?: TimeHint; // When the analyzer heard the meal was eaten
+  mealType?: MealType; // Occasion the analyzer inferred from what was said
+  onSaveFavourite?: (items: TokenItem[], mealType: MealType) => void;
+  onSaveRecipe?: (items: TokenItem[]) => void; // Keep these items as the ingredients of a new recipe
+  photo?: Blob | null; // Meal photo to store with a new entry
+  warnings?: NutritionWarning[]; // From the analyzer; corrections are listed, doubts re-checked as you edit
+  questions?: ClarifyingQuestion[]; // What the analyzer would like to know about the items it guessed
 }
 
-const KNOWN_KEYS = new Set(["qty", "n", "cal", "p", "c", "f", "fib"]);
+// An item the user has adjusted by hand is no longer the analyzer's guess
+const settle = (item: TokenItem): TokenItem => {
+  const settled = { ...item };
+  delete settled.conf;
+  return settled;
+};
 
-const ConfirmationModal = ({ isOpen, onClose, items, onConfirm }: ConfirmationModalProps) => {
+const ConfirmationModal = ({ isOpen, onClose, items, transcript = '', onConfirm, meal, loggedAt, defaultDate, timeHint, mealType, onSaveFavourite, onSaveRecipe, photo, warnings, questions }: ConfirmationModalProps) => {
   const [editItems, setEditItems] = useState<TokenItem[]>([]);
+  const [editTranscript, setEditTranscript] = useState('');
+  const [eatenDate, setEatenDate] = useState('');
+  const [eatenTime, setEatenTime] = useState('');
+  const [chosenType, setChosenType] = useState<MealType | null>(null); // null follows the time eaten
+  const [foods, setFoods] = useState<Record<string, FoodMatch>>({}); // reference foods by id
+  const [swapIndex, setSwapIndex] = useState<number | null>(null);
+  const [corrections, setCorrections] = useState<NutritionWarning[]>([]);
+  const [openQuestions, setOpenQuestions] = useState<ClarifyingQuestion[]>([]);
+  const [answer, setAnswer] = useState('');
+  const [clarifying, setClarifying] = useState(false);
+  const [transcribingAnswer, setTranscribingAnswer] = useState(false);
+  const answerRecorder = useAudioRecorder();
+  const requestedFoods = useRef(new Set<string>());
+  // The item as it was when its quantity field gained focus; every keystroke
+  // rescales from here so half-typed quantities ("1", "15") leave no trace
+  const qtyBaseline = useRef<{ index: number; item: TokenItem } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [reanalyzing, setReanalyzing] = useState(false);
   const { user } = useAuth();
+  const { timeZone, languagePreference } = useProfile();
+  const { t, dateLocale } = useTranslation();
+  const language = languagePreference ?? undefined;
   const { toast } = useToast();
 
   // Initialize local editable items whenever modal opens
   useEffect(() => {
     if (isOpen) {
-      setEditItems(Array.isArray(items) && items.length ? items.map(i => ({ ...i })) : [{ qty: '1 serving', n: '' }]);
+      if (meal) {
+        setEditItems(mealToTokenItems(meal));
+        // Older meals stored a copy of meal_name rather than a transcript
+        setEditTranscript(meal.description && meal.description !== meal.meal_name ? meal.description : '');
+      } else {
+        setEditItems(Array.isArray(items) && items.length ? items.map(i => ({ ...i })) : [{ qty: t('item.defaultQty'), n: '' }]);
+        setEditTranscript(transcript);
+      }
+      setCorrections(meal ? [] : (warnings || []).filter(w => w.corrected !== undefined));
+      setOpenQuestions(meal ? [] : questions || []);
+      setAnswer('');
+    }
+  }, [isOpen, items, transcript, meal, warnings, questions, t]);
+
+  // When the meal was eaten, as a date and time in the user's zone
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const now = new Date();
+    if (meal) {
+      const instant = new Date(meal.logged_at);
+      setEatenDate(toDateStringInTimeZone(instant, timeZone));
+      setEatenTime(toTimeStringInTimeZone(instant, timeZone));
+    } else if (timeHint) {
+      // A day chosen explicitly (in the ledger) outranks a spoken "yesterday",
+      // and a queued entry's hint counts back from when it was captured
+      const resolved = resolveTimeHint(timeHint, timeZone, loggedAt ? new Date(loggedAt) : now);
+      setEatenDate(defaultDate || resolved.date);
+      setEatenTime(resolved.time);
+    } else if (loggedAt) {
+      const instant = new Date(loggedAt);
+      setEatenDate(toDateStringInTimeZone(instant, timeZone));
+      setEatenTime(toTimeStringInTimeZone(instant, timeZone));
+    } else {
+      setEatenDate(defaultDate || toDateStringInTimeZone(now, timeZone));
+      setEatenTime(toTimeStringInTimeZone(now, timeZone));
+    }
+  }, [isOpen, meal, loggedAt, timeHint, defaultDate, timeZone]);
+
+  // Occasion: stored value, then what the analyzer inferred, then a spoken occasion
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (meal) {
+      setChosenType(isMealType(meal.meal_type) ? meal.meal_type : null);
+    } else if (mealType) {
+      setChosenType(mealType);
+    } else {
+      setChosenType(isMealType(timeHint?.occasion) ? timeHint.occasion : null);
     }
-  }, [isOpen, items]);
+  }, [isOpen, meal, mealType, timeHint]);
+
+  const selectedType = chosenType ?? mealTypeForTime(eatenTime || '12:00');
+
+  // Names of matched reference foods, for items grounded by the analyzer or a stored meal
+  useEffect(() => {
+    const missing = Array.from(new Set(editItems.map(item => item.fid)))
+      .filter((id): id is string => !!id && !requestedFoods.current.has(id));
+    if (!missing.length) return;
+    missing.forEach(id => requestedFoods.current.add(id));
+
+    fetchFoods(missing)
+      .then(found => setFoods(prev => ({ ...prev, ...Object.fromEntries(found.map(food => [food.id, food])) })))
+      .catch(error => console.error('Error loading matched foods:', error));
+  }, [editItems]);
+
+  const handleReanalyze = async () => {
+    const text = editTranscript.trim();
+    if (!text) return;
+
+    setReanalyzing(true);
+    try {
+      const result = await analyzeText(text, language);
+      setEditItems(result.items.length ? result.items : [{ qty: t('item.defaultQty'), n: '' }]);
+      setCorrections((result.warnings || []).filter(w => w.corrected !== undefined));
+      setOpenQuestions(result.questions || []);
+      if (result.meal_type) setChosenType(result.meal_type);
+    } catch (error) {
+      console.error('Error re-analyzing transcript:', error);
+      toast({
+        variant: 'destructive',
+        title: t('toast.analysisError'),
+        description: t('confirm.toast.reanalyseError')
+      });
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
+  // Items still awaiting the user's word: those asked about, plus any the
+  // analyzer was unsure of without thinking to ask. Hand edits settle them.
+  const unsureIndices = useMemo(() => {
+    const indices = new Set<number>();
+    openQuestions.forEach(({ item }) => {
+      if (editItems[item]?.conf !== undefined) indices.add(item);
+    });
+    editItems.forEach((item, index) => {
+      if (isLowConfidence(item)) indices.add(index);
+    });
+    return Array.from(indices).sort((a, b) => a - b);
+  }, [openQuestions, editItems]);
+
+  const pendingQuestions = openQuestions.filter(({ item }) => unsureIndices.includes(item));
+
+  const toggleAnswerRecording = async () => {
+    try {
+      if (!answerRecorder.isRecording) {
+        await answerRecorder.start();
+        return;
+      }
+      const audio = await answerRecorder.stop();
+      setTranscribingAnswer(true);
+      const spoken = await transcribePartial(audio, language);
+      setAnswer(prev => [prev.trim(), spoken.trim()].filter(Boolean).join(' '));
+    } catch (error) {
+      console.error('Error recording answer:', error);
+      toast({ variant: 'destructive', title: t('toast.recordingError'), description: t('confirm.toast.answerRecordError') });
+    } finally {
+      setTranscribingAnswer(false);
+    }
+  };
+
+  // Re-analyse only the unsure items; the rest of the entry stays as it is
+  const handleClarify = async () => {
+    const text = answer.trim();
+    if (!text || !unsureIndices.length) return;
+
+    setClarifying(true);
+    try {
+      const result = await clarifyItems({
+        transcript: editTranscript.trim(),
+        items: unsureIndices.map(index => editItems[index]),
+        questions: pendingQuestions.map(({ q }) => q),
+      }, text, language);
+
+      // The revised items take the place of the first one asked about
+      const first = unsureIndices[0];
+      const kept = editItems.filter((_, index) => !unsureIndices.includes(index));
+      const insertAt = kept.filter((_, index) => index < first).length;
+      setEditItems([...kept.slice(0, insertAt), ...result.items, ...kept.slice(insertAt)]);
+      setOpenQuestions((result.questions || []).map(({ item, q }) => ({ item: item + insertAt, q })));
+      setCorrections(prev => [...prev, ...(result.warnings || []).filter(w => w.corrected !== undefined)]);
+      setAnswer('');
+    } catch (error) {
+      console.error('Error clarifying items:', error);
+      toast({
+        variant: 'destructive',
+        title: t('toast.analysisError'),
+        description: t('confirm.toast.clarifyError')
+      });
+    } finally {
+      setClarifying(false);
+    }
+  };
 
   const micronutrientKeys = useMemo(() => {
     const keys = new Set<string>();
     for (const it of editItems) {
       Object.keys(it).forEach(k => {
-        if (!KNOWN_KEYS.has(k) && /^(?:[a-z]{1,4})_(?:mg|mcg|iu|g|mgdL|mmolL)$/i.test(k)) keys.add(k);
+        if (!KNOWN_KEYS.has(k) && MICRONUTRIENT_KEY_PATTERN.test(k)) keys.add(k);
       });
     }
     return Array.from(keys);
   }, [editItems]);
 
+  // Re-checked on every edit, so a fixed number stops being flagged
+  const flags = useMemo(() => warningsByItem(checkItems(editItems)), [editItems]);
+  const flagCount = Object.values(flags).reduce((n, fields) => n + Object.keys(fields).length, 0);
+
+  const flagClass = (index: number, field: string) =>
+    flags[index]?.[field] ? 'border-destructive focus-visible:ring-destructive' : '';
+
   const updateItem = (index: number, field: string, value: string | number) => {
     const updated = [...editItems];
-    updated[index] = { ...updated[index], [field]: value };
+    updated[index] = settle({ ...updated[index], [field]: value });
+    // Hand-edited numbers no longer come from the reference food, nor a renamed item from the recipe
+    if (field !== 'qty' && field !== 'n') delete updated[index].fid;
+    if (field !== 'qty') delete updated[index].rid;
+    setEditItems(updated);
+  };
+
+  const updateQuantity = (index: number, qty: string) => {
+    const baseline = qtyBaseline.current?.index === index ? qtyBaseline.current.item : editItems[index];
+    const food = baseline.fid ? foods[baseline.fid] : undefined;
+    const grams = quantityGrams(qty);
+    const updated = [...editItems];
+    // A weight for a matched food is read straight off the reference data
+    updated[index] = settle(food && grams ? { ...applyFood(baseline, food, grams), qty } : rescaleItem(baseline, qty));
+    setEditItems(updated);
+  };
+
+  const swapFood = (index: number, food: FoodMatch) => {
+    setFoods(prev => ({ ...prev, [food.id]: food }));
+    const updated = [...editItems];
+    updated[index] = settle(applyFood(updated[index], food));
+    setEditItems(updated);
+    setSwapIndex(null);
+  };
+
+  const updateGrams = (index: number, grams: number) => {
+    const item = editItems[index];
+    const food = item.fid ? foods[item.fid] : undefined;
+    const updated = [...editItems];
+    updated[index] = settle(food && grams > 0 ? applyFood(item, food, grams) : { ...item, g: grams });
     setEditItems(updated);
   };
 
   const addFoodItem = () => {
-    setEditItems([...editItems, { qty: '1 serving', n: '' }]);
+    setEditItems([...editItems, { qty: t('item.defaultQty'), n: '' }]);
   };
 
   const removeFoodItem = (index: number) => {
     setEditItems(editItems.filter((_, i) => i !== index));
+    // Questions point at items by position
+    setOpenQuestions(openQuestions
+      .filter(({ item }) => item !== index)
+      .map(question => (question.item > index ? { ...question, item: question.item - 1 } : question)));
   };
 
   const computeTotals = (list: TokenItem[]) => {
@@ -90,10 +332,10 @@ const ConfirmationModal = ({ isOpen, onClose, items, onConfirm }: ConfirmationMo
   };
 
   const handleConfirm = async () => {
-    if (!user) return;
+    if (!user || !eatenDate) return;
     const invalid = editItems.some(it => !it.n || !it.qty);
     if (invalid) {
-      toast({ variant: 'destructive', title: 'Missing details', description: 'Please fill in quantity and name for each item.' });
+      toast({ variant: 'destructive', title: t('confirm.toast.missing.title'), description: t('confirm.toast.missing.description') });
       return;
     }
 
@@ -102,11 +344,14 @@ const ConfirmationModal = ({ isOpen, onClose, items, onConfirm }: ConfirmationMo
       // Compute meal-level totals client-side
       const totals = computeTotals(editItems);
       const meal_name = editItems.map(i => `${i.qty} ${i.n}`.trim()).filter(Boolean).join(', ');
-      const description = meal_name;
+      // Keep what was said as an audit trail for the numbers
+      const description = editTranscript.trim() || meal_name;
 
-      // Persist to Supabase if the meals table exists (best-effort)
-      const { error } = await supabase.from('meals').insert({
-        user_id: user.id,
+      const eatenAt = fromZonedDateTime(eatenDate, eatenTime || '12:00', timeZone);
+      const mealFields = {
+        logged_at: eatenAt.toISOString(),
+        logged_date: eatenDate,
+        meal_type: selectedType,
         meal_name,
         description,
         total_calories: totals.total_calories,
@@ -115,10 +360,72 @@ const ConfirmationModal = ({ isOpen, onClose, items, onConfirm }: ConfirmationMo
         fat: totals.fat,
         fiber: totals.fiber,
         micronutrients: totals.micronutrients,
-      });
-      if (error) {
-        // Log but don't block user flow
-        console.warn('Insert meals error (non-fatal):', error.message);
+      };
+
+      if (meal) {
+        // Editing: the new items go in before the old ones come out, so a
+        // failure part way never leaves the meal with nothing. Saving again
+        // clears any old items a failed attempt left behind.
+        const { data: added, error: itemsError } = await supabase
+          .from('meal_items')
+          .insert(toMealItemRows(meal.id, user.id, editItems))
+          .select('id');
+        if (itemsError) throw itemsError;
+        const addedIds = added.map(({ id }) => id);
+
+        const { error } = await supabase.from('meals').update(mealFields).eq('id', meal.id);
+        if (error) {
+          const { error: cleanupError } = await supabase.from('meal_items').delete().in('id', addedIds);
+          if (cleanupError) console.error('Error removing items of a failed edit:', cleanupError);
+          throw error;
+        }
+
+        let stale = supabase.from('meal_items').delete().eq('meal_id', meal.id);
+        if (addedIds.length) stale = stale.not('id', 'in', `(${addedIds.join(',')})`);
+        const { error: deleteError } = await stale;
+        if (deleteError) throw deleteError;
+      } else {
+        // A photo that fails to upload shouldn't cost the user their entry
+        let photo_path: string | null = null;
+        if (photo) {
+          try {
+            photo_path = await uploadMealPhoto(user.id, photo);
+          } catch (uploadError) {
+            console.warn('Upload meal photo error (non-fatal):', uploadError);
+          }
+        }
+
+        const { data: inserted, error } = await supabase.from('meals').insert({
+          user_id: user.id,
+          ...mealFields,
+          photo_path,
+        }).select('id').single();
+
+        // Nothing else points at the photo once its meal is gone
+        const discardPhoto = async () => {
+          if (!photo_path) return;
+          try {
+            await removeMealPhoto(photo_path);
+          } catch (removeError) {
+            console.error('Error removing photo of an unsaved meal:', removeError);
+          }
+        };
+
+        if (error) {
+          await discardPhoto();
+          throw error;
+        }
+
+        // Keep the per-item breakdown alongside the meal totals. A meal
+        // without its items is taken back, so nothing half-saved is left
+        // and the caller can keep whatever it was saving from.
+        const { error: itemsError } = await supabase.from('meal_items').insert(toMealItemRows(inserted.id, user.id, editItems));
+        if (itemsError) {
+          const { error: cleanupError } = await supabase.from('meals').delete().eq('id', inserted.id);
+          if (cleanupError) console.error('Error removing meal whose items failed to save:', cleanupError);
+          else await discardPhoto();
+          throw itemsError;
+        }
       }
 
       onConfirm({ items: editItems, totals });
@@ -126,8 +433,8 @@ const ConfirmationModal = ({ isOpen, onClose, items, onConfirm }: ConfirmationMo
       console.error('Error saving meal:', error);
       toast({
         variant: 'destructive',
-        title: 'Recording Error',
-        description: 'Unable to save your meal. Please try again.'
+        title: t('toast.recordingError'),
+        description: t('confirm.toast.saveError')
       });
     } finally {
       setLoading(false);
@@ -138,64 +445,235 @@ const ConfirmationModal = ({ isOpen, onClose, items, onConfirm }: ConfirmationMo
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-sm w-[92vw] sm:max-w-lg max-h-[85vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-butler-heading">If I May Confirm</DialogTitle>
+          <DialogTitle className="text-butler-heading">{t('confirm.title')}</DialogTitle>
           <DialogDescription className="text-butler-body">
-            Review your items. Adjust quantities, names, or macros before I record them.
+            {t('confirm.description')}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
+          {(transcript || editTranscript || meal) && (
+            <div className="space-y-2">
+              <Label htmlFor="transcript" className="text-sm font-medium">{t('confirm.transcript.label')}</Label>
+              <Textarea
+                id="transcript"
+                value={editTranscript}
+                onChange={(e) => setEditTranscript(e.target.value)}
+                placeholder={t('confirm.transcript.placeholder')}
+                rows={3}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReanalyze}
+                disabled={reanalyzing || loading || !editTranscript.trim()}
+                className="w-full"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${reanalyzing ? 'animate-spin' : ''}`} />
+                {reanalyzing ? t('confirm.reanalysing') : t('confirm.reanalyse')}
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">{t('confirm.when')}</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="justify-start font-normal" disabled={!eatenDate}>
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {eatenDate ? format(fromDateString(eatenDate), 'EEE, MMM d', { locale: dateLocale }) : t('confirm.pickDate')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={eatenDate ? fromDateString(eatenDate) : undefined}
+                    onSelect={(date) => date && setEatenDate(toDateString(date))}
+                    disabled={(date) => toDateString(date) > toDateStringInTimeZone(new Date(), timeZone)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <Input type="time" value={eatenTime} onChange={(e) => setEatenTime(e.target.value)} aria-label={t('confirm.timeEaten')} />
+            </div>
+            <Select value={selectedType} onValueChange={(value) => isMealType(value) && setChosenType(value)}>
+              <SelectTrigger aria-label={t('confirm.mealType')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEAL_TYPES.map(({ key }) => (
+                  <SelectItem key={key} value={key}>{t(`mealType.${key}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="space-y-3">
-            <Label className="text-sm font-medium">Items:</Label>
+            <Label className="text-sm font-medium">{t('confirm.items')}</Label>
+            {corrections.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="mb-1">{t('confirm.corrections')}</p>
+                  <ul className="list-disc pl-4 space-y-0.5 text-xs">
+                    {corrections.map((w, i) => <li key={i}>{w.message}</li>)}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            {unsureIndices.length > 0 && (
+              <div className="space-y-2 rounded-lg border border-butler-gold/50 bg-butler-gold/5 p-3">
+                <p className="text-sm font-medium text-butler-heading flex items-center gap-1">
+                  <HelpCircle className="w-4 h-4" />
+                  {pendingQuestions.length
+                    ? t('confirm.questions.ask')
+                    : t('confirm.questions.guessed', { items: unsureIndices.map(i => editItems[i].n || t('confirm.questions.anItem')).join(', ') })}
+                </p>
+                {pendingQuestions.length > 0 && (
+                  <ul className="list-disc pl-5 space-y-0.5 text-sm text-butler-body">
+                    {pendingQuestions.map(({ item, q }) => <li key={`${item}-${q}`}>{q}</li>)}
+                  </ul>
+                )}
+                <Textarea
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  placeholder={t('confirm.questions.placeholder')}
+                  rows={2}
+                  aria-label={t('confirm.questions.answerLabel')}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    variant={answerRecorder.isRecording ? 'destructive' : 'outline'}
+                    size="sm"
+                    onClick={toggleAnswerRecording}
+                    disabled={clarifying || transcribingAnswer}
+                    aria-label={answerRecorder.isRecording ? t('confirm.questions.finishVoice') : t('confirm.questions.voice')}
+                  >
+                    {answerRecorder.isRecording ? <Square className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleClarify}
+                    disabled={!answer.trim() || clarifying || transcribingAnswer || answerRecorder.isRecording}
+                    className="flex-1"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${clarifying ? 'animate-spin' : ''}`} />
+                    {clarifying ? t('confirm.questions.reconsidering') : transcribingAnswer ? t('confirm.questions.listeningBack') : t('confirm.questions.answer')}
+                  </Button>
+                </div>
+              </div>
+            )}
             {editItems.map((item, index) => (
               <div key={index} className="space-y-2 rounded-lg border border-border/50 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1 min-w-0">
+                    {item.rid ? (
+                      <Badge variant="secondary" className="text-xs font-normal">
+                        <ChefHat className="w-3 h-3 mr-1" />
+                        {t('confirm.item.recipe')}
+                      </Badge>
+                    ) : item.fid ? (
+                      <Badge variant="secondary" className="text-xs font-normal min-w-0">
+                        <Database className="w-3 h-3 mr-1 shrink-0" />
+                        <span className="truncate">{foods[item.fid] ? foodLabel(foods[item.fid]) : t('confirm.item.dbMatch')}</span>
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs font-normal">{t('confirm.item.estimate')}</Badge>
+                    )}
+                    {unsureIndices.includes(index) && (
+                      <Badge variant="outline" className="text-xs font-normal border-butler-gold text-butler-heading">
+                        <HelpCircle className="w-3 h-3 mr-1" />
+                        {t('confirm.item.unsure')}
+                      </Badge>
+                    )}
+                  </div>
+                  <Popover open={swapIndex === index} onOpenChange={(open) => setSwapIndex(open ? index : null)}>
+                    <PopoverTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs shrink-0">
+                        <Search className="w-3 h-3 mr-1" />
+                        {item.fid ? t('confirm.item.swap') : t('confirm.item.lookUp')}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-80" align="end">
+                      <FoodSearch initialQuery={item.n} onSelect={(food) => swapFood(index, food)} />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
                 <div className="grid grid-cols-2 gap-2">
                   <div>
-                    <Label htmlFor={`qty-${index}`} className="text-xs text-muted-foreground">Quantity</Label>
-                    <Input id={`qty-${index}`} value={item.qty || ''} onChange={(e) => updateItem(index, 'qty', e.target.value)} placeholder="e.g., 2 slices, 150g" />
+                    <Label htmlFor={`qty-${index}`} className="text-xs text-muted-foreground">{t('confirm.item.quantity')}</Label>
+                    <Input
+                      id={`qty-${index}`}
+                      value={item.qty || ''}
+                      onFocus={() => { qtyBaseline.current = { index, item }; }}
+                      onBlur={() => { qtyBaseline.current = null; }}
+                      onChange={(e) => updateQuantity(index, e.target.value)}
+                      placeholder={t('confirm.item.quantityPlaceholder')}
+                    />
                   </div>
                   <div>
-                    <Label htmlFor={`name-${index}`} className="text-xs text-muted-foreground">Food Item</Label>
-                    <Input id={`name-${index}`} value={item.n || ''} onChange={(e) => updateItem(index, 'n', e.target.value)} placeholder="e.g., Whole grain toast" />
+                    <Label htmlFor={`name-${index}`} className="text-xs text-muted-foreground">{t('confirm.item.name')}</Label>
+                    <Input id={`name-${index}`} value={item.n || ''} onChange={(e) => updateItem(index, 'n', e.target.value)} placeholder={t('confirm.item.namePlaceholder')} />
                   </div>
                 </div>
 
                 <div className="grid grid-cols-4 gap-2">
                   <div>
-                    <Label className="text-xs text-muted-foreground">Cal</Label>
-                    <Input type="number" inputMode="decimal" value={item.cal ?? ''} onChange={(e) => updateItem(index, 'cal', Number(e.target.value))} placeholder="160" />
+                    <Label className="text-xs text-muted-foreground">{t('confirm.item.calories')}</Label>
+                    <Input type="number" inputMode="decimal" value={item.cal ?? ''} onChange={(e) => updateItem(index, 'cal', Number(e.target.value))} placeholder="160" className={flagClass(index, 'cal')} title={flags[index]?.cal} />
                   </div>
                   <div>
-                    <Label className="text-xs text-muted-foreground">P (g)</Label>
-                    <Input type="number" inputMode="decimal" value={item.p ?? ''} onChange={(e) => updateItem(index, 'p', Number(e.target.value))} placeholder="8" />
+                    <Label className="text-xs text-muted-foreground">{t('confirm.item.protein')}</Label>
+                    <Input type="number" inputMode="decimal" value={item.p ?? ''} onChange={(e) => updateItem(index, 'p', Number(e.target.value))} placeholder="8" className={flagClass(index, 'p')} title={flags[index]?.p} />
                   </div>
                   <div>
-                    <Label className="text-xs text-muted-foreground">C (g)</Label>
-                    <Input type="number" inputMode="decimal" value={item.c ?? ''} onChange={(e) => updateItem(index, 'c', Number(e.target.value))} placeholder="30" />
+                    <Label className="text-xs text-muted-foreground">{t('confirm.item.carbs')}</Label>
+                    <Input type="number" inputMode="decimal" value={item.c ?? ''} onChange={(e) => updateItem(index, 'c', Number(e.target.value))} placeholder="30" className={flagClass(index, 'c')} title={flags[index]?.c} />
                   </div>
                   <div>
-                    <Label className="text-xs text-muted-foreground">F (g)</Label>
-                    <Input type="number" inputMode="decimal" value={item.f ?? ''} onChange={(e) => updateItem(index, 'f', Number(e.target.value))} placeholder="2" />
+                    <Label className="text-xs text-muted-foreground">{t('confirm.item.fat')}</Label>
+                    <Input type="number" inputMode="decimal" value={item.f ?? ''} onChange={(e) => updateItem(index, 'f', Number(e.target.value))} placeholder="2" className={flagClass(index, 'f')} title={flags[index]?.f} />
                   </div>
                 </div>
 
                 <div className="grid grid-cols-4 gap-2">
+                  {item.fid && (
+                    <div>
+                      <Label className="text-xs text-muted-foreground">{t('confirm.item.weight')}</Label>
+                      <Input type="number" inputMode="decimal" value={item.g ?? ''} onChange={(e) => updateGrams(index, Number(e.target.value))} placeholder="100" className={flagClass(index, 'g')} title={flags[index]?.g} />
+                    </div>
+                  )}
                   <div>
-                    <Label className="text-xs text-muted-foreground">Fib (g)</Label>
-                    <Input type="number" inputMode="decimal" value={item.fib ?? ''} onChange={(e) => updateItem(index, 'fib', Number(e.target.value))} placeholder="6" />
+                    <Label className="text-xs text-muted-foreground">{t('confirm.item.fiber')}</Label>
+                    <Input type="number" inputMode="decimal" value={item.fib ?? ''} onChange={(e) => updateItem(index, 'fib', Number(e.target.value))} placeholder="6" className={flagClass(index, 'fib')} title={flags[index]?.fib} />
                   </div>
                   {/* Render micronutrients present on any item */}
                   {micronutrientKeys.map((key) => (
                     <div key={key}>
-                      <Label className="text-xs text-muted-foreground">{key}</Label>
-                      <Input type="number" inputMode="decimal" value={(item[key] as number) ?? ''} onChange={(e) => updateItem(index, key, Number(e.target.value))} placeholder="0" />
+                      <Label className="text-xs text-muted-foreground block truncate" title={micronutrientName(key)}>
+                        {micronutrientName(key)} ({micronutrientUnit(key)})
+                      </Label>
+                      <Input type="number" inputMode="decimal" value={(item[key] as number) ?? ''} onChange={(e) => updateItem(index, key, Number(e.target.value))} placeholder="0" className={flagClass(index, key)} title={flags[index]?.[key]} />
                     </div>
                   ))}
                 </div>
 
+                {flags[index] && (
+                  <ul className="space-y-1 text-xs text-destructive">
+                    {Array.from(new Set(Object.values(flags[index]))).map(message => (
+                      <li key={message} className="flex gap-1">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                        {message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
                 {editItems.length > 1 && (
                   <div className="text-right">
-                    <Button variant="ghost" size="sm" onClick={() => removeFoodItem(index)} className="px-2 text-destructive hover:text-destructive">× Remove</Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeFoodItem(index)} className="px-2 text-destructive hover:text-destructive">{t('confirm.item.remove')}</Button>
                   </div>
                 )}
               </div>
@@ -203,27 +681,58 @@ const ConfirmationModal = ({ isOpen, onClose, items, onConfirm }: ConfirmationMo
 
             <Button variant="outline" size="sm" onClick={addFoodItem} className="w-full">
               <Edit3 className="w-4 h-4 mr-2" />
-              Add Another Item
+              {t('confirm.addItem')}
             </Button>
+
+            {onSaveFavourite && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onSaveFavourite(editItems, selectedType)}
+                disabled={loading || editItems.some(it => !it.n?.trim() || !it.qty?.trim())}
+                className="w-full"
+              >
+                <Star className="w-4 h-4 mr-2" />
+                {t('confirm.saveFavourite')}
+              </Button>
+            )}
+
+            {onSaveRecipe && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onSaveRecipe(editItems)}
+                disabled={loading || editItems.some(it => !it.n?.trim())}
+                className="w-full"
+              >
+                <ChefHat className="w-4 h-4 mr-2" />
+                {t('confirm.saveRecipe')}
+              </Button>
+            )}
           </div>
 
           <Separator />
 
           <div className="sticky bottom-0 left-0 right-0 bg-card/95 supports-[backdrop-filter]:bg-card/80 backdrop-blur border-t border-border pt-2 pb-[env(safe-area-inset-bottom)]">
+            {flagCount > 0 && (
+              <p className="text-xs text-destructive text-center mb-2">
+                {flagCount === 1 ? t('confirm.doubtful.one') : t('confirm.doubtful.other', { count: flagCount })}
+              </p>
+            )}
             <div className="flex flex-col sm:flex-row gap-2">
               <Button variant="outline" onClick={onClose} disabled={loading} className="w-full sm:flex-1">
-                Allow me to reconsider
+                {t('confirm.cancel')}
               </Button>
               <Button onClick={handleConfirm} disabled={loading || editItems.some(it => !it.n?.trim())} className="w-full sm:flex-1 btn-butler">
                 {loading ? (
                   <>
                     <div className="animate-spin w-4 h-4 mr-2 border-2 border-primary-foreground border-t-transparent rounded-full"></div>
-                    Saving...
+                    {t('confirm.saving')}
                   </>
                 ) : (
                   <>
                     <Check className="w-4 h-4 mr-2" />
-                    Confirm & Record
+                    {meal ? t('confirm.saveChanges') : t('confirm.record')}
                   </>
                 )}
               </Button>
@@ -0,0 +1,87 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Star, X } from 'lucide-react';
+import type { TokenItem } from '@/lib/meals';
+import { FoodSuggestion, SavedFood, readSavedItems } from '@/lib/savedFoods';
+
+interface FavouritesPickerProps {
+  favourites: SavedFood[];
+  suggestions: FoodSuggestion[];
+  onPick: (items: TokenItem[], favourite?: SavedFood) => void;
+  onSaveSuggestion: (item: TokenItem) => void;
+  onRemove: (favourite: SavedFood) => void;
+}
+
+const calories = (items: TokenItem[]) => Math.round(items.reduce((sum, item) => sum + Number(item.cal || 0), 0));
+
+const FavouritesPicker = ({ favourites, suggestions, onPick, onSaveSuggestion, onRemove }: FavouritesPickerProps) => {
+  if (!favourites.length && !suggestions.length) return null;
+
+  return (
+    <div className="space-y-3">
+      {favourites.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-muted-foreground">Your usuals</div>
+          <div className="flex flex-wrap gap-2">
+            {favourites.map((favourite) => {
+              const items = readSavedItems(favourite.items);
+              return (
+                <div key={favourite.id} className="flex items-center rounded-full border border-border bg-card">
+                  <button
+                    type="button"
+                    onClick={() => onPick(items, favourite)}
+                    className="flex items-center gap-1.5 pl-3 pr-1 py-1 text-sm hover:text-primary"
+                  >
+                    <Star className="w-3.5 h-3.5 fill-current text-butler-gold" />
+                    <span className="max-w-[12rem] truncate">{favourite.name}</span>
+                    <span className="text-xs text-muted-foreground">{calories(items)} cal</span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 mr-1 rounded-full text-muted-foreground"
+                    onClick={() => onRemove(favourite)}
+                    aria-label={`Remove ${favourite.name} from favourites`}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-muted-foreground">You often have</div>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(({ item, count }) => (
+              <div key={`${item.qty} ${item.n}`} className="flex items-center rounded-full border border-dashed border-border">
+                <button
+                  type="button"
+                  onClick={() => onPick([item])}
+                  className="flex items-center gap-1.5 pl-3 pr-1 py-1 text-sm hover:text-primary"
+                >
+                  <span className="max-w-[12rem] truncate">{item.qty} {item.n}</span>
+                  <Badge variant="secondary" className="text-xs px-1.5 py-0">{count}×</Badge>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 mr-1 rounded-full text-muted-foreground"
+                  onClick={() => onSaveSuggestion(item)}
+                  aria-label={`Save ${item.n} as a favourite`}
+                >
+                  <Star className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FavouritesPicker;
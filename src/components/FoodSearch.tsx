@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { FoodMatch, foodLabel, searchFoods } from '@/lib/foods';
+
+interface FoodSearchProps {
+  initialQuery?: string;
+  onSelect: (food: FoodMatch) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SOURCE_LABELS: Record<string, string> = { usda: 'USDA', off: 'Open Food Facts' };
+
+// Type-ahead over the reference food database
+const FoodSearch = ({ initialQuery = '', onSelect }: FoodSearchProps) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [results, setResults] = useState<FoodMatch[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (text.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await searchFoods(text);
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error('Error searching foods:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <div className="space-y-2">
+      <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search foods..." autoFocus />
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {results.map((food) => (
+          <button
+            key={food.id}
+            type="button"
+            onClick={() => onSelect(food)}
+            className="w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+          >
+            <div className="font-medium leading-tight">{foodLabel(food)}</div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>{Math.round(Number(food.calories) || 0)} cal / 100 g</span>
+              {food.serving_desc && <span>· {food.serving_desc}</span>}
+              <Badge variant="outline" className="ml-auto text-[10px] px-1 py-0">{SOURCE_LABELS[food.source] ?? food.source}</Badge>
+            </div>
+          </button>
+        ))}
+        {!searching && query.trim().length >= 2 && results.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No foods found.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FoodSearch;
@@ -0,0 +1,39 @@
+import { Progress } from '@/components/ui/progress';
+import { GOAL_FIELDS, NutritionGoals, NutritionTotals, isGoalMet } from '@/lib/goals';
+
+interface GoalProgressProps {
+  totals: NutritionTotals;
+  goals: NutritionGoals;
+}
+
+const GoalProgress = ({ totals, goals }: GoalProgressProps) => {
+  const tracked = GOAL_FIELDS.filter(({ key }) => goals[key] != null);
+
+  return (
+    <div className="space-y-3">
+      {tracked.map(({ key, label, unit }) => {
+        const consumed = Math.round(totals[key] || 0);
+        const goal = Math.round(goals[key]);
+        const remaining = goal - consumed;
+        const met = isGoalMet(key, consumed, goal);
+
+        return (
+          <div key={key} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{label}</span>
+              <span className={met ? 'text-primary' : 'text-muted-foreground'}>
+                {consumed} / {goal} {unit}
+                <span className="ml-2 text-xs">
+                  {remaining >= 0 ? `${remaining} remaining` : `${-remaining} over`}
+                </span>
+              </span>
+            </div>
+            <Progress value={Math.min(100, goal > 0 ? (consumed / goal) * 100 : 0)} className="h-2" />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GoalProgress;
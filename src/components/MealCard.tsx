@@ -1,29 +1,40 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, Clock, Zap } from 'lucide-react';
-
-interface Meal {
-  id: string;
-  meal_name: string;
-  description: string;
-  total_calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  fiber: number;
-  micronutrients: any;
-  logged_at: string;
-}
+import { ChevronDown, Clock, Pencil, Star, Trash2, Zap } from 'lucide-react';
+import { Meal, readMicronutrients } from '@/lib/meals';
+import { formatMicronutrient, micronutrientName } from '@/lib/micronutrients';
+import { getMealPhotoUrl } from '@/lib/photos';
 
 interface MealCardProps {
   meal: Meal;
+  onEdit?: (meal: Meal) => void;
+  onDelete?: (meal: Meal) => void;
+  onFavourite?: (meal: Meal) => void;
 }
 
-const MealCard = ({ meal }: MealCardProps) => {
+const MealCard = ({ meal, onEdit, onDelete, onFavourite }: MealCardProps) => {
   const [showMicros, setShowMicros] = useState(false);
+  const [showItems, setShowItems] = useState(false);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+
+  // Photos live in a private bucket, so each card asks for a short-lived link
+  useEffect(() => {
+    if (!meal.photo_path) {
+      setPhotoUrl(null);
+      return;
+    }
+    let cancelled = false;
+    getMealPhotoUrl(meal.photo_path)
+      .then(url => { if (!cancelled) setPhotoUrl(url); })
+      .catch(error => console.warn('Unable to load meal photo:', error));
+    return () => { cancelled = true; };
+  }, [meal.photo_path]);
+
+  const items = [...(meal.meal_items || [])].sort((a, b) => a.position - b.position);
+  const topCalories = Math.max(0, ...items.map(item => Number(item.calories) || 0));
 
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -31,19 +42,20 @@ const MealCard = ({ meal }: MealCardProps) => {
   };
 
   const renderMicronutrients = () => {
-    if (!meal.micronutrients || Object.keys(meal.micronutrients).length === 0) {
+    const micros = readMicronutrients(meal.micronutrients);
+    if (Object.keys(micros).length === 0) {
       return <p className="text-muted-foreground text-sm">No micronutrient data available</p>;
     }
 
     return (
       <div className="grid grid-cols-2 gap-2 text-sm">
-        {Object.entries(meal.micronutrients).map(([key, value]) => (
+        {Object.entries(micros).map(([key, value]) => (
           <div key={key} className="flex justify-between">
-            <span className="capitalize text-muted-foreground">
-              {key.replace(/_/g, ' ')}:
+            <span className="text-muted-foreground">
+              {micronutrientName(key)}:
             </span>
             <span className="font-medium">
-              {typeof value === 'number' ? `${value}${getUnit(key)}` : String(value)}
+              {formatMicronutrient(key, value)}
             </span>
           </div>
         ))}
@@ -51,20 +63,13 @@ const MealCard = ({ meal }: MealCardProps) => {
     );
   };
 
-  const getUnit = (nutrient: string) => {
-    const mgNutrients = ['vitamin_c', 'vitamin_e', 'calcium', 'iron', 'magnesium'];
-    const mcgNutrients = ['folate', 'vitamin_b12', 'vitamin_d'];
-    
-    if (mgNutrients.includes(nutrient)) return 'mg';
-    if (mcgNutrients.includes(nutrient)) return 'µg';
-    if (nutrient === 'potassium') return 'mg';
-    return '';
-  };
-
   return (
     <Card className="card-butler hover-elevate">
       <CardHeader className="pb-3">
-        <div className="flex items-start justify-between">
+        <div className="flex items-start justify-between gap-3">
+          {photoUrl && (
+            <img src={photoUrl} alt="" className="w-14 h-14 rounded-md object-cover shrink-0" loading="lazy" />
+          )}
           <div className="flex-1">
             <CardTitle className="text-butler-heading text-lg leading-tight">
               {meal.meal_name}
@@ -76,10 +81,31 @@ const MealCard = ({ meal }: MealCardProps) => {
               </div>
             </CardDescription>
           </div>
-          <Badge variant="secondary" className="bg-primary/10 text-primary hover:bg-primary/20">
-            <Zap className="w-3 h-3 mr-1" />
-            {Math.round(meal.total_calories || 0)} cal
-          </Badge>
+          <div className="flex flex-col items-end gap-1">
+            <Badge variant="secondary" className="bg-primary/10 text-primary hover:bg-primary/20">
+              <Zap className="w-3 h-3 mr-1" />
+              {Math.round(meal.total_calories || 0)} cal
+            </Badge>
+            {(onEdit || onDelete || onFavourite) && (
+              <div className="flex">
+                {onFavourite && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onFavourite(meal)} aria-label="Save as favourite">
+                    <Star className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+                {onEdit && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEdit(meal)} aria-label="Edit meal">
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+                {onDelete && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => onDelete(meal)} aria-label="Delete meal">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </CardHeader>
       
@@ -114,6 +140,42 @@ const MealCard = ({ meal }: MealCardProps) => {
           </div>
         )}
 
+        {/* Items Collapsible */}
+        {items.length > 0 && (
+          <Collapsible open={showItems} onOpenChange={setShowItems}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" className="w-full justify-between text-sm p-2 h-auto">
+                Review Items ({items.length})
+                <ChevronDown className={`w-4 h-4 transition-transform ${showItems ? 'rotate-180' : ''}`} />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+              <div className="bg-muted/30 rounded-lg p-3 space-y-2">
+                {items.map((item) => {
+                  const calories = Number(item.calories) || 0;
+                  const share = meal.total_calories ? Math.round((calories / meal.total_calories) * 100) : 0;
+                  return (
+                    <div key={item.id} className="flex items-start justify-between gap-2 text-sm">
+                      <div className="flex-1">
+                        <div className="font-medium">{item.qty} {item.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          P {Math.round(Number(item.protein) || 0)}g · C {Math.round(Number(item.carbs) || 0)}g · F {Math.round(Number(item.fat) || 0)}g
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className={`font-medium ${items.length > 1 && calories > 0 && calories === topCalories ? 'text-primary' : ''}`}>
+                          {Math.round(calories)} cal
+                        </div>
+                        <div className="text-xs text-muted-foreground">{share}%</div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         {/* Micronutrients Collapsible */}
         <Collapsible open={showMicros} onOpenChange={setShowMicros}>
           <CollapsibleTrigger asChild>
@@ -129,8 +191,8 @@ const MealCard = ({ meal }: MealCardProps) => {
           </CollapsibleContent>
         </Collapsible>
 
-        {/* Description */}
-        {meal.description && (
+        {/* Transcript (older meals stored a copy of the name here) */}
+        {meal.description && meal.description !== meal.meal_name && (
           <div className="bg-muted/20 rounded-lg p-2">
             <p className="text-xs text-muted-foreground italic">
               "{meal.description}"
@@ -0,0 +1,44 @@
+import MealCard from '@/components/MealCard';
+import { groupMealsByType } from '@/lib/mealTypes';
+import type { Meal } from '@/lib/meals';
+
+interface MealGroupsProps {
+  meals: Meal[];
+  timeZone: string;
+  onEdit?: (meal: Meal) => void;
+  onDelete?: (meal: Meal) => void;
+  onFavourite?: (meal: Meal) => void;
+  gridClassName?: string;
+}
+
+// Meals under Breakfast / Lunch / Dinner / Snack headings, each with its
+// calorie subtotal and share of the day so grazing stands out.
+const MealGroups = ({ meals, timeZone, onEdit, onDelete, onFavourite, gridClassName = 'grid grid-cols-1 gap-4' }: MealGroupsProps) => {
+  const groups = groupMealsByType(meals, timeZone);
+  const dayCalories = groups.reduce((sum, group) => sum + group.calories, 0);
+
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <section key={group.key}>
+          <div className="flex items-baseline justify-between mb-3">
+            <h3 className="text-butler-heading font-semibold">{group.label}</h3>
+            <span className="text-sm text-muted-foreground">
+              {Math.round(group.calories)} kcal
+              {dayCalories > 0 && (
+                <span className="ml-2 text-xs">{Math.round((group.calories / dayCalories) * 100)}% of the day</span>
+              )}
+            </span>
+          </div>
+          <div className={gridClassName}>
+            {group.meals.map((meal) => (
+              <MealCard key={meal.id} meal={meal} onEdit={onEdit} onDelete={onDelete} onFavourite={onFavourite} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default MealGroups;
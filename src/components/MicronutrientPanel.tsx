@@ -0,0 +1,64 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { Tables } from '@/integrations/supabase/types';
+import { MICRONUTRIENTS, formatMicronutrient, getDailyTarget, micronutrientName } from '@/lib/micronutrients';
+
+interface MicronutrientPanelProps {
+  totals: Record<string, number>;
+  profile: Tables<'profiles'> | null;
+}
+
+const MicronutrientPanel = ({ totals, profile }: MicronutrientPanelProps) => {
+  // Registry order, and only what today's meals actually reported
+  const tracked = Object.entries(MICRONUTRIENTS).filter(([key]) => totals[key] != null);
+  const others = Object.keys(totals).filter(key => !MICRONUTRIENTS[key]);
+  const personalised = profile?.sex === 'female' || profile?.sex === 'male';
+
+  return (
+    <Card className="card-butler mb-8">
+      <CardHeader>
+        <CardTitle className="text-butler-heading">Vitamins &amp; Minerals</CardTitle>
+        <CardDescription>
+          {personalised
+            ? 'Share of your recommended daily intake so far today.'
+            : 'Share of the standard Daily Value so far today. Add your sex and birth year in Preferences for personal targets.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {tracked.length === 0 && others.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No micronutrient data recorded today</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3">
+            {tracked.map(([key, info]) => {
+              const target = getDailyTarget(info, profile);
+              const percent = Math.round((totals[key] / target) * 100);
+              const over = info.limit && percent > 100;
+
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{info.name}</span>
+                    <span className={over ? 'text-destructive' : 'text-muted-foreground'}>
+                      {formatMicronutrient(key, totals[key])}
+                      <span className="ml-2 text-xs">
+                        {percent}% {info.limit ? 'of limit' : 'of target'}
+                      </span>
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, percent)} className={`h-2 ${over ? '[&>div]:bg-destructive' : ''}`} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {others.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-4">
+            Also recorded: {others.map(key => `${micronutrientName(key)} ${formatMicronutrient(key, totals[key])}`).join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MicronutrientPanel;
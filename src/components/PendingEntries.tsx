@@ -0,0 +1,80 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CloudOff, Mic, PenLine, RefreshCw } from 'lucide-react';
+import type { PendingEntry } from '@/lib/offlineQueue';
+
+interface PendingEntriesProps {
+  entries: PendingEntry[];
+  syncing: boolean;
+  onRetry: () => void;
+  onReview: (entry: PendingEntry) => void; // failed entries open unanalysed, to be filled in by hand
+  onDiscard: (entry: PendingEntry) => void;
+}
+
+const PendingEntries = ({ entries, syncing, onRetry, onReview, onDiscard }: PendingEntriesProps) => {
+  const formatCaptured = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <Card className="card-butler mb-8">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-butler-heading flex items-center gap-2">
+            <CloudOff className="w-5 h-5" />
+            Awaiting Attention
+          </CardTitle>
+          <CardDescription>
+            Entries captured without a connection. I shall analyse them once we are back online.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onRetry} disabled={syncing}>
+          <RefreshCw className={`w-4 h-4 md:mr-2 ${syncing ? 'animate-spin' : ''}`} />
+          <span className="hidden md:inline">Retry now</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {entries.map((entry) => (
+          <div key={entry.id} className="flex items-center justify-between gap-3 rounded-lg border border-border/50 p-3">
+            <div className="flex items-center gap-3 min-w-0">
+              {entry.kind === 'audio' ? (
+                <Mic className="w-4 h-4 shrink-0 text-muted-foreground" />
+              ) : (
+                <PenLine className="w-4 h-4 shrink-0 text-muted-foreground" />
+              )}
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">
+                  {entry.transcript || entry.text || 'Voice recording'}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Captured {formatCaptured(entry.capturedAt)}
+                  {entry.status === 'pending' && entry.attempts > 0 && ` · ${entry.attempts} failed attempt${entry.attempts !== 1 ? 's' : ''}`}
+                  {entry.status === 'failed' && ' · I could not analyse this; edit it or let it go'}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {entry.status === 'ready' ? (
+                <Button size="sm" onClick={() => onReview(entry)} className="btn-butler">Review</Button>
+              ) : entry.status === 'failed' ? (
+                <>
+                  <Badge variant="destructive" className="text-xs">Failed</Badge>
+                  <Button variant="outline" size="sm" onClick={() => onReview(entry)}>Edit</Button>
+                </>
+              ) : (
+                <Badge variant="outline" className="text-xs">Pending</Badge>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => onDiscard(entry)} className="px-2 text-destructive hover:text-destructive">
+                ×
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PendingEntries;
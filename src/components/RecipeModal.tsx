@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Check, Edit3, Mic, RefreshCw, Square } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useAudioRecorder } from '@/hooks/useAudioRecorder';
+import { useProfile } from '@/hooks/useProfile';
+import { analyzeText, transcribePartial } from '@/lib/nutritionApi';
+import type { TokenItem } from '@/lib/meals';
+import { rescaleItem } from '@/lib/quantities';
+import { Recipe, RecipeDraft, recipeIngredients, servingNutrition } from '@/lib/recipes';
+
+interface RecipeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (draft: RecipeDraft, existing?: Recipe | null) => Promise<boolean>;
+  recipe?: Recipe | null; // Existing recipe being amended
+  ingredients?: TokenItem[]; // Seed for a new recipe, e.g. items just dictated
+  name?: string; // Suggested name for a new recipe
+}
+
+const NO_INGREDIENTS: TokenItem[] = [];
+
+const toNumber = (text: string) => {
+  const value = Number(text.replace(',', '.'));
+  return text.trim() && value > 0 ? value : null;
+};
+
+// Ingredients are edited by hand, so the analyzer's confidence no longer applies
+const settle = (item: TokenItem): TokenItem => {
+  const settled = { ...item };
+  delete settled.conf;
+  return settled;
+};
+
+const RecipeModal = ({ isOpen, onClose, onSave, recipe, ingredients = NO_INGREDIENTS, name = '' }: RecipeModalProps) => {
+  const [recipeName, setRecipeName] = useState('');
+  const [servings, setServings] = useState('');
+  const [totalGrams, setTotalGrams] = useState('');
+  const [items, setItems] = useState<TokenItem[]>([]);
+  const [description, setDescription] = useState('');
+  const [analyzing, setAnalyzing] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const recorder = useAudioRecorder();
+  // As in ConfirmationModal: quantities rescale from the item as it was on focus
+  const qtyBaseline = useRef<{ index: number; item: TokenItem } | null>(null);
+  const { languagePreference } = useProfile();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRecipeName(recipe?.name ?? name);
+    setServings(recipe?.servings != null ? String(recipe.servings) : '');
+    setTotalGrams(recipe?.total_grams != null ? String(recipe.total_grams) : '');
+    setItems(recipe ? recipeIngredients(recipe) : ingredients.map(settle));
+    setDescription('');
+  }, [isOpen, recipe, ingredients, name]);
+
+  const recipeYield = { servings: toNumber(servings), total_grams: toNumber(totalGrams) };
+  const perServing = servingNutrition(items, recipeYield);
+
+  const updateItem = (index: number, field: string, value: string | number) => {
+    const updated = [...items];
+    updated[index] = settle({ ...updated[index], [field]: value });
+    if (field !== 'n') delete updated[index].fid;
+    setItems(updated);
+  };
+
+  const updateQuantity = (index: number, qty: string) => {
+    const baseline = qtyBaseline.current?.index === index ? qtyBaseline.current.item : items[index];
+    const updated = [...items];
+    updated[index] = settle(rescaleItem(baseline, qty));
+    setItems(updated);
+  };
+
+  const toggleRecording = async () => {
+    try {
+      if (!recorder.isRecording) {
+        await recorder.start();
+        return;
+      }
+      const audio = await recorder.stop();
+      setTranscribing(true);
+      const spoken = await transcribePartial(audio, languagePreference ?? undefined);
+      setDescription(prev => [prev.trim(), spoken.trim()].filter(Boolean).join(' '));
+    } catch (error) {
+      console.error('Error recording ingredients:', error);
+      toast({ variant: 'destructive', title: 'Recording Error', description: 'I could not catch that. Perhaps type the ingredients instead?' });
+    } finally {
+      setTranscribing(false);
+    }
+  };
+
+  // Itemise what the user described and add it to the list
+  const handleAnalyze = async () => {
+    const text = description.trim();
+    if (!text) return;
+
+    setAnalyzing(true);
+    try {
+      const result = await analyzeText(text, languagePreference ?? undefined);
+      setItems(prev => [...prev.filter(item => item.n.trim()), ...result.items.map(settle)]);
+      setDescription('');
+    } catch (error) {
+      console.error('Error analyzing ingredients:', error);
+      toast({ variant: 'destructive', title: 'Analysis Error', description: 'Unable to itemise those ingredients. Please try again.' });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await onSave({
+      name: recipeName,
+      ingredients: items.filter(item => item.n.trim()),
+      ...recipeYield,
+    }, recipe);
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-sm w-[92vw] sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-butler-heading">{recipe ? 'Amend the Recipe' : 'A Recipe for the Ledger'}</DialogTitle>
+          <DialogDescription className="text-butler-body">
+            List what goes into the whole batch and how much it makes; I shall work out each serving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recipe-name" className="text-sm font-medium">Name:</Label>
+            <Input id="recipe-name" value={recipeName} onChange={(e) => setRecipeName(e.target.value)} placeholder="e.g., Chili" />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Makes:</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="recipe-servings" className="text-xs text-muted-foreground">Servings</Label>
+                <Input id="recipe-servings" type="number" inputMode="decimal" value={servings} onChange={(e) => setServings(e.target.value)} placeholder="4" />
+              </div>
+              <div>
+                <Label htmlFor="recipe-grams" className="text-xs text-muted-foreground">Cooked weight (g)</Label>
+                <Input id="recipe-grams" type="number" inputMode="decimal" value={totalGrams} onChange={(e) => setTotalGrams(e.target.value)} placeholder="1400" />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Either will do. With only the weight, you log it by the gram.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Ingredients:</Label>
+            {items.map((item, index) => (
+              <div key={index} className="space-y-2 rounded-lg border border-border/50 p-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    value={item.qty || ''}
+                    onFocus={() => { qtyBaseline.current = { index, item }; }}
+                    onBlur={() => { qtyBaseline.current = null; }}
+                    onChange={(e) => updateQuantity(index, e.target.value)}
+                    placeholder="e.g., 500g"
+                    aria-label="Quantity"
+                  />
+                  <Input value={item.n || ''} onChange={(e) => updateItem(index, 'n', e.target.value)} placeholder="e.g., Minced beef" aria-label="Ingredient" />
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  <Input type="number" inputMode="decimal" value={item.cal ?? ''} onChange={(e) => updateItem(index, 'cal', Number(e.target.value))} placeholder="Cal" aria-label="Calories" />
+                  <Input type="number" inputMode="decimal" value={item.p ?? ''} onChange={(e) => updateItem(index, 'p', Number(e.target.value))} placeholder="P (g)" aria-label="Protein (g)" />
+                  <Input type="number" inputMode="decimal" value={item.c ?? ''} onChange={(e) => updateItem(index, 'c', Number(e.target.value))} placeholder="C (g)" aria-label="Carbs (g)" />
+                  <Input type="number" inputMode="decimal" value={item.f ?? ''} onChange={(e) => updateItem(index, 'f', Number(e.target.value))} placeholder="F (g)" aria-label="Fat (g)" />
+                </div>
+                <div className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => setItems(items.filter((_, i) => i !== index))} className="px-2 text-destructive hover:text-destructive">× Remove</Button>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" onClick={() => setItems([...items, { qty: '', n: '' }])} className="w-full">
+              <Edit3 className="w-4 h-4 mr-2" />
+              Add an Ingredient
+            </Button>
+
+            <div className="space-y-2 rounded-lg border border-border/50 bg-muted/20 p-3">
+              <Label htmlFor="recipe-description" className="text-xs text-muted-foreground">Or describe them, and I shall itemise the lot</Label>
+              <Textarea
+                id="recipe-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g., 500g minced beef, two tins of kidney beans, an onion and a jar of passata"
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant={recorder.isRecording ? 'destructive' : 'outline'}
+                  size="sm"
+                  onClick={toggleRecording}
+                  disabled={analyzing || transcribing}
+                  aria-label={recorder.isRecording ? 'Finish speaking' : 'Describe by voice'}
+                >
+                  {recorder.isRecording ? <Square className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleAnalyze}
+                  disabled={!description.trim() || analyzing || transcribing || recorder.isRecording}
+                  className="flex-1"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${analyzing ? 'animate-spin' : ''}`} />
+                  {analyzing ? 'Itemising...' : transcribing ? 'Listening back...' : 'Add to Ingredients'}
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="sticky bottom-0 left-0 right-0 bg-card/95 supports-[backdrop-filter]:bg-card/80 backdrop-blur border-t border-border pt-2 pb-[env(safe-area-inset-bottom)]">
+            <p className="text-xs text-muted-foreground text-center mb-2">
+              {perServing
+                ? `Per serving${perServing.serving_g ? ` (${perServing.serving_g} g)` : ''}: ${Math.round(perServing.calories)} cal · ${perServing.protein}g protein · ${perServing.carbs}g carbs · ${perServing.fat}g fat`
+                : 'Tell me how many servings it makes, or its cooked weight.'}
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button variant="outline" onClick={onClose} disabled={saving} className="w-full sm:flex-1">
+                Allow me to reconsider
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving || !recipeName.trim() || !perServing || !items.some(item => item.n.trim())}
+                className="w-full sm:flex-1 btn-butler"
+              >
+                <Check className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : recipe ? 'Save Changes' : 'Save Recipe'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipeModal;
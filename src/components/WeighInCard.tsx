@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Check, LineChart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BodyMetric, METRIC_FIELDS, MetricKey, Units, formatMetric } from '@/lib/bodyMetrics';
+import { fromDateString } from '@/lib/dates';
+
+interface WeighInCardProps {
+  metrics: BodyMetric[]; // recent measurements, oldest first
+  today: string;
+  units: Units;
+  onLog: (values: Partial<Record<MetricKey, number>>) => Promise<boolean>;
+  onShowTrend: () => void;
+}
+
+const METRIC_KEYS = Object.keys(METRIC_FIELDS) as MetricKey[];
+
+const EMPTY_FORM: Record<MetricKey, string> = { weight_kg: '', body_fat_pct: '', waist_cm: '' };
+
+const WeighInCard = ({ metrics, today, units, onLog, onShowTrend }: WeighInCardProps) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const todays = metrics.find(metric => metric.measured_date === today) ?? null;
+  const lastWeighIn = [...metrics].reverse().find(metric => metric.weight_kg != null && metric.measured_date !== today);
+
+  // Show what has already been recorded today so it can be corrected
+  useEffect(() => {
+    const seeded = { ...EMPTY_FORM };
+    for (const key of METRIC_KEYS) {
+      const value = todays?.[key];
+      if (value != null) seeded[key] = String(Math.round(METRIC_FIELDS[key].toDisplay(Number(value), units) * 10) / 10);
+    }
+    setForm(seeded);
+  }, [todays, units]);
+
+  const handleSave = async () => {
+    const values: Partial<Record<MetricKey, number>> = {};
+    for (const key of METRIC_KEYS) {
+      const value = Number(form[key].replace(',', '.'));
+      if (form[key].trim() && value > 0) values[key] = Math.round(METRIC_FIELDS[key].fromDisplay(value, units) * 100) / 100;
+    }
+    if (!Object.keys(values).length) return;
+
+    setSaving(true);
+    await onLog(values);
+    setSaving(false);
+  };
+
+  return (
+    <Card className="card-butler mb-8">
+      <CardHeader>
+        <CardTitle className="text-butler-heading">Weigh-in</CardTitle>
+        <CardDescription>
+          {lastWeighIn
+            ? `Last recorded ${formatMetric('weight_kg', Number(lastWeighIn.weight_kg), units)} on ${format(fromDateString(lastWeighIn.measured_date), 'MMM d')}.`
+            : 'Record your weight now and then, and I shall reckon what you truly burn.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          {METRIC_KEYS.map((key) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`metric-${key}`} className="text-xs text-muted-foreground">
+                {METRIC_FIELDS[key].label} ({METRIC_FIELDS[key].unit(units)})
+              </Label>
+              <Input
+                id={`metric-${key}`}
+                type="number"
+                inputMode="decimal"
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={handleSave} disabled={saving || METRIC_KEYS.every(key => !form[key].trim())} className="w-full sm:flex-1">
+            <Check className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : todays ? "Update Today's Entry" : 'Record for Today'}
+          </Button>
+          <Button variant="outline" onClick={onShowTrend} className="w-full sm:w-auto">
+            <LineChart className="w-4 h-4 mr-2" />
+            See the Trend
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeighInCard;
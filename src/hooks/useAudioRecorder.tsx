@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from 'react';
+
+// A bare microphone recording, for short spoken answers. RecordingModal keeps
+// its own recorder since it also streams partial transcripts.
+export function useAudioRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const release = () => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+    recorderRef.current = null;
+  };
+
+  // Don't hold the microphone after the component goes away
+  useEffect(() => release, []);
+
+  // Throws when the microphone is unavailable or permission is refused
+  const start = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    chunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.start();
+    recorderRef.current = recorder;
+    setIsRecording(true);
+  };
+
+  const stop = () =>
+    new Promise<Blob>((resolve, reject) => {
+      const recorder = recorderRef.current;
+      if (!recorder) {
+        reject(new Error('Not recording'));
+        return;
+      }
+      recorder.onstop = () => {
+        resolve(new Blob(chunksRef.current, { type: 'audio/webm' }));
+        release();
+      };
+      recorder.stop();
+      setIsRecording(false);
+    });
+
+  return { isRecording, start, stop };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/components/ui/use-toast';
+import type { BodyMetric, MetricKey } from '@/lib/bodyMetrics';
+
+// The user's measurements from `from` onwards, oldest first
+export function useBodyMetrics(from: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [metrics, setMetrics] = useState<BodyMetric[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const { data, error } = await supabase
+        .from('body_metrics')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('measured_date', from)
+        .order('measured_date', { ascending: true });
+      if (error) throw error;
+      setMetrics(data || []);
+    } catch (error) {
+      console.error('Error loading body metrics:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, from]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Records the given measurements against a day, keeping any others already
+  // taken that day. Values are in stored units. Resolves to whether it was saved.
+  const logMetrics = async (date: string, values: Partial<Record<MetricKey, number>>) => {
+    if (!userId) return false;
+    try {
+      const { error } = await supabase
+        .from('body_metrics')
+        .upsert({ user_id: userId, measured_date: date, ...values }, { onConflict: 'user_id,measured_date' });
+      if (error) throw error;
+      await refresh();
+      toast({ title: 'Measurement recorded', description: 'Duly noted; the trend will follow in time.' });
+      return true;
+    } catch (error) {
+      console.error('Error saving body metrics:', error);
+      toast({ variant: 'destructive', title: 'Measurement Error', description: 'Unable to record that measurement. Please try again.' });
+      return false;
+    }
+  };
+
+  return { metrics, loading, logMetrics, refresh };
+}
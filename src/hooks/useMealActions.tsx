@@ -0,0 +1,81 @@
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import type { Meal } from '@/lib/meals';
+import { removeMealPhoto } from '@/lib/photos';
+
+// How long a deleted meal can be brought back before its photo is thrown away
+const UNDO_WINDOW_MS = 8000;
+
+// Shared meal mutations for pages that list MealCards.
+// onChanged is called after any write so the page can reload its data.
+export function useMealActions(onChanged: () => void | Promise<void>) {
+  const { toast } = useToast();
+
+  // Put a deleted meal (and its items) back exactly as it was
+  const restoreMeal = async (meal: Meal) => {
+    const { meal_items, ...mealRow } = meal;
+    try {
+      const { error } = await supabase.from('meals').insert(mealRow);
+      if (error) throw error;
+
+      if (meal_items?.length) {
+        const { error: itemsError } = await supabase.from('meal_items').insert(meal_items);
+        if (itemsError) throw itemsError;
+      }
+
+      await onChanged();
+      toast({ title: 'Entry restored', description: 'I have returned it to the ledger.' });
+    } catch (error) {
+      console.error('Error restoring meal:', error);
+      toast({ variant: 'destructive', title: 'Restore Error', description: 'Unable to restore this entry.' });
+    }
+  };
+
+  const deleteMeal = async (meal: Meal) => {
+    try {
+      // meal_items rows are removed by ON DELETE CASCADE
+      const { error } = await supabase.from('meals').delete().eq('id', meal.id);
+      if (error) throw error;
+
+      await onChanged();
+      let undone = false;
+      const { dismiss } = toast({
+        title: 'Entry removed',
+        description: `"${meal.meal_name}" has been struck from the ledger.`,
+        duration: UNDO_WINDOW_MS,
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() => {
+              undone = true;
+              restoreMeal(meal);
+            }}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+
+      // The photo stays in storage until Undo can no longer be pressed. Timed
+      // here rather than on the toast, which a newer toast may replace early.
+      const photoPath = meal.photo_path;
+      if (photoPath) {
+        setTimeout(async () => {
+          if (undone) return;
+          dismiss();
+          try {
+            await removeMealPhoto(photoPath);
+          } catch (removeError) {
+            console.error('Error removing photo of a deleted meal:', removeError);
+          }
+        }, UNDO_WINDOW_MS);
+      }
+    } catch (error) {
+      console.error('Error deleting meal:', error);
+      toast({ variant: 'destructive', title: 'Delete Error', description: 'Unable to remove this entry. Please try again.' });
+    }
+  };
+
+  return { deleteMeal };
+}
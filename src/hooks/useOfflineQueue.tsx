@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { analyzeText, isNetworkError, transcribeAndAnalyzeStream } from '@/lib/nutritionApi';
+import {
+  PendingEntry,
+  createPendingEntry,
+  listPendingEntries,
+  putPendingEntry,
+  removePendingEntry,
+} from '@/lib/offlineQueue';
+
+// Failed syncs, network failures included, before an entry is left for the user
+const MAX_SYNC_ATTEMPTS = 5;
+
+// Background sync for captures made while offline. Entries are analysed as
+// soon as connectivity returns and then wait for the user to review them.
+export function useOfflineQueue() {
+  const { user } = useAuth();
+  const { languagePreference } = useProfile();
+  const [entries, setEntries] = useState<PendingEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const userId = user?.id;
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setEntries(await listPendingEntries(userId));
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+    }
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    if (!userId || syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    const language = languagePreference ?? undefined;
+    try {
+      const queued = (await listPendingEntries(userId)).filter(entry => entry.status === 'pending');
+      for (const entry of queued) {
+        try {
+          const result = entry.kind === 'audio'
+            ? await transcribeAndAnalyzeStream(entry.audio, {}, language)
+            : await analyzeText(entry.text, language);
+          await putPendingEntry({
+            ...entry,
+            status: 'ready',
+            items: result.items,
+            transcript: result.transcript || entry.text,
+            mealType: result.meal_type,
+            when: result.when,
+            warnings: result.warnings,
+            questions: result.questions,
+            lastError: undefined,
+          });
+        } catch (error) {
+          // A request the server turned down would fail the same way again
+          const attempts = entry.attempts + 1;
+          const failed = !isNetworkError(error) || attempts >= MAX_SYNC_ATTEMPTS;
+          await putPendingEntry({
+            ...entry,
+            status: failed ? 'failed' : 'pending',
+            attempts,
+            lastError: error instanceof Error ? error.message : 'Unknown error',
+          });
+          // Still offline: no point hammering the rest of the queue
+          if (!navigator.onLine) break;
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing offline queue:', error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+  }, [userId, languagePreference, refresh]);
+
+  useEffect(() => {
+    if (!userId) return;
+    refresh().then(sync);
+
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [userId, refresh, sync]);
+
+  const enqueue = async (fields: Pick<PendingEntry, 'kind' | 'audio' | 'text' | 'capturedAt'>) => {
+    if (!userId) return;
+    await putPendingEntry(createPendingEntry({ userId, ...fields }));
+    await refresh();
+  };
+
+  const enqueueAudio = (audio: Blob, capturedAt: string) => enqueue({ kind: 'audio', audio, capturedAt });
+
+  const enqueueText = (text: string, capturedAt: string) => enqueue({ kind: 'text', text, capturedAt });
+
+  // Gives failed entries another go, at the user's request
+  const retry = async () => {
+    if (!userId) return;
+    try {
+      const failed = (await listPendingEntries(userId)).filter(entry => entry.status === 'failed');
+      for (const entry of failed) await putPendingEntry({ ...entry, status: 'pending', attempts: 0 });
+    } catch (error) {
+      console.error('Error requeueing failed entries:', error);
+    }
+    await sync();
+  };
+
+  const remove = async (id: string) => {
+    await removePendingEntry(id);
+    await refresh();
+  };
+
+  return { entries, syncing, sync, retry, enqueueAudio, enqueueText, remove };
+}
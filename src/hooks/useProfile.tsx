@@ -0,0 +1,109 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { getBrowserTimeZone } from '@/lib/dates';
+import { detectLanguage, isLanguage, type Language } from '@/lib/i18n';
+
+type Profile = Tables<'profiles'>;
+
+interface ProfileContextType {
+  profile: Profile | null;
+  loading: boolean;
+  timeZone: string;
+  language: Language; // what the UI is shown in
+  languagePreference: Language | null; // what the user chose; null lets the analyzer detect it
+  updateProfile: (fields: TablesUpdate<'profiles'>) => Promise<{ error?: { message: string } | null }>;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export function ProfileProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const loadProfile = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading profile:', error);
+      }
+
+      let loaded = data;
+      // First visit since time zones were introduced: adopt the browser's zone
+      if (loaded && !loaded.timezone) {
+        const { data: updated } = await supabase
+          .from('profiles')
+          .update({ timezone: getBrowserTimeZone() })
+          .eq('user_id', user.id)
+          .select('*')
+          .single();
+        if (updated) loaded = updated;
+      }
+
+      if (!cancelled) {
+        setProfile(loaded ?? null);
+        setLoading(false);
+      }
+    };
+
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const updateProfile = async (fields: TablesUpdate<'profiles'>) => {
+    if (!user) return { error: new Error('Not signed in') };
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(fields)
+      .eq('user_id', user.id)
+      .select('*')
+      .single();
+
+    if (!error && data) setProfile(data);
+    return { error };
+  };
+
+  const languagePreference = isLanguage(profile?.language) ? profile.language : null;
+
+  const value = {
+    profile,
+    loading,
+    timeZone: profile?.timezone || getBrowserTimeZone(),
+    language: languagePreference ?? detectLanguage(),
+    languagePreference,
+    updateProfile
+  };
+
+  return (
+    <ProfileContext.Provider value={value}>
+      {children}
+    </ProfileContext.Provider>
+  );
+}
+
+export function useProfile() {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import type { Json } from '@/integrations/supabase/types';
+import { Recipe, RecipeDraft, servingNutrition } from '@/lib/recipes';
+
+// The user's recipes, with per-serving nutrition worked out from the
+// ingredients whenever one is saved
+export function useRecipes() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const { data, error } = await supabase
+        .from('recipes')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+      if (error) throw error;
+      setRecipes(data || []);
+    } catch (error) {
+      console.error('Error loading recipes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Inserts the draft, or updates `existing` with it. Resolves to whether it was saved.
+  const saveRecipe = async (draft: RecipeDraft, existing?: Recipe | null) => {
+    if (!userId) return false;
+
+    const name = draft.name.trim();
+    const nutrition = servingNutrition(draft.ingredients, draft);
+    if (!name || !draft.ingredients.length || !nutrition) {
+      toast({ variant: 'destructive', title: 'Missing details', description: 'A recipe needs a name, its ingredients and how much it makes.' });
+      return false;
+    }
+
+    const fields = {
+      name,
+      // The analyzer's confidence belongs to one entry, not to the recipe
+      ingredients: draft.ingredients.map(({ conf: _conf, ...item }) => item) as Json,
+      servings: draft.servings,
+      total_grams: draft.total_grams,
+      ...nutrition,
+      micronutrients: nutrition.micronutrients as Json,
+    };
+
+    try {
+      const { error } = existing
+        ? await supabase.from('recipes').update(fields).eq('id', existing.id)
+        : await supabase.from('recipes').insert({ ...fields, user_id: userId });
+      if (error) throw error;
+
+      await refresh();
+      toast({ title: existing ? 'Recipe amended' : 'Recipe saved', description: `Mention "${name}" when you record a meal and I shall know what you mean.` });
+      return true;
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      toast({ variant: 'destructive', title: 'Recipe Error', description: 'Unable to save this recipe. Please try again.' });
+      return false;
+    }
+  };
+
+  // Put a removed recipe back as it was. Meals logged from it stay unlinked.
+  const restoreRecipe = async (recipe: Recipe) => {
+    try {
+      const { error } = await supabase.from('recipes').insert(recipe);
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error('Error restoring recipe:', error);
+      toast({ variant: 'destructive', title: 'Restore Error', description: 'Unable to restore this recipe.' });
+    }
+  };
+
+  const removeRecipe = async (recipe: Recipe) => {
+    try {
+      // Logged meals keep their figures; meal_items.recipe_id is set to null
+      const { error } = await supabase.from('recipes').delete().eq('id', recipe.id);
+      if (error) throw error;
+      await refresh();
+      toast({
+        title: 'Recipe removed',
+        description: `"${recipe.name}" has been struck from your recipes.`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreRecipe(recipe)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error('Error removing recipe:', error);
+      toast({ variant: 'destructive', title: 'Recipe Error', description: 'Unable to remove this recipe.' });
+    }
+  };
+
+  return { recipes, loading, saveRecipe, removeRecipe, refresh };
+}
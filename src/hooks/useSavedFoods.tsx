@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/components/ui/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import type { TokenItem } from '@/lib/meals';
+import type { MealType } from '@/lib/mealTypes';
+import {
+  FoodSuggestion,
+  SUGGESTION_LOOKBACK_DAYS,
+  SavedFood,
+  favouriteName,
+  findDuplicateFavourite,
+  suggestFrequentItems,
+} from '@/lib/savedFoods';
+
+// Favourites for one-tap re-logging. With `suggest`, also mines recent
+// meal items for foods the user logs often but hasn't saved yet.
+export function useSavedFoods({ suggest = false }: { suggest?: boolean } = {}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [favourites, setFavourites] = useState<SavedFood[]>([]);
+  const [suggestions, setSuggestions] = useState<FoodSuggestion[]>([]);
+
+  const userId = user?.id;
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const { data, error } = await supabase
+        .from('saved_foods')
+        .select('*')
+        .eq('user_id', userId)
+        .order('use_count', { ascending: false })
+        .order('name', { ascending: true });
+      if (error) throw error;
+      setFavourites(data || []);
+
+      if (suggest) {
+        const since = new Date(Date.now() - SUGGESTION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const { data: rows, error: itemsError } = await supabase
+          .from('meal_items')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('created_at', since);
+        if (itemsError) throw itemsError;
+        setSuggestions(suggestFrequentItems(rows || [], data || []));
+      }
+    } catch (error) {
+      console.error('Error loading saved foods:', error);
+    }
+  }, [userId, suggest]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveFavourite = async (items: TokenItem[], mealType?: MealType | null) => {
+    if (!userId || !items.length) return;
+
+    const existing = findDuplicateFavourite(favourites, items);
+    if (existing) {
+      toast({ title: 'Already a favourite', description: `"${existing.name}" is already among your usuals.` });
+      return;
+    }
+
+    try {
+      const name = favouriteName(items);
+      const { error } = await supabase.from('saved_foods').insert({
+        user_id: userId,
+        name,
+        // The analyzer's confidence belongs to one entry, not to the usual
+        items: items.map(({ conf: _conf, ...item }) => item) as Json,
+        meal_type: mealType ?? null,
+      });
+      if (error) throw error;
+
+      await refresh();
+      toast({ title: 'Favourite saved', description: `I shall keep "${name}" close at hand.` });
+    } catch (error) {
+      console.error('Error saving favourite:', error);
+      toast({ variant: 'destructive', title: 'Favourite Error', description: 'Unable to save this favourite. Please try again.' });
+    }
+  };
+
+  const removeFavourite = async (favourite: SavedFood) => {
+    try {
+      const { error } = await supabase.from('saved_foods').delete().eq('id', favourite.id);
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error('Error removing favourite:', error);
+      toast({ variant: 'destructive', title: 'Favourite Error', description: 'Unable to remove this favourite.' });
+    }
+  };
+
+  // Keeps the most-used favourites first in the picker
+  const markUsed = async (favourite: SavedFood) => {
+    const { error } = await supabase
+      .from('saved_foods')
+      .update({ use_count: favourite.use_count + 1, last_used_at: new Date().toISOString() })
+      .eq('id', favourite.id);
+    if (error) {
+      console.warn('Update saved_foods use_count error (non-fatal):', error.message);
+    }
+    await refresh();
+  };
+
+  return { favourites, suggestions, saveFavourite, removeFavourite, markUsed, refresh };
+}
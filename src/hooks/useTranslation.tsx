@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { useProfile } from '@/hooks/useProfile';
+import { DATE_LOCALES, translate, type MessageKey } from '@/lib/i18n';
+
+// Messages in the user's language, and the matching date-fns locale
+export function useTranslation() {
+  const { language } = useProfile();
+
+  const t = useCallback(
+    (key: MessageKey, vars?: Record<string, string | number>) => translate(language, key, vars),
+    [language],
+  );
+
+  return { t, language, dateLocale: DATE_LOCALES[language] };
+}
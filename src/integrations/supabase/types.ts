@@ -14,6 +14,178 @@ export type Database = {
   }
   public: {
     Tables: {
+      body_metrics: {
+        Row: {
+          body_fat_pct: number | null
+          created_at: string
+          id: string
+          measured_date: string
+          updated_at: string
+          user_id: string
+          waist_cm: number | null
+          weight_kg: number | null
+        }
+        Insert: {
+          body_fat_pct?: number | null
+          created_at?: string
+          id?: string
+          measured_date: string
+          updated_at?: string
+          user_id: string
+          waist_cm?: number | null
+          weight_kg?: number | null
+        }
+        Update: {
+          body_fat_pct?: number | null
+          created_at?: string
+          id?: string
+          measured_date?: string
+          updated_at?: string
+          user_id?: string
+          waist_cm?: number | null
+          weight_kg?: number | null
+        }
+        Relationships: []
+      }
+      foods: {
+        Row: {
+          brand: string | null
+          calories: number | null
+          carbs: number | null
+          created_at: string
+          fat: number | null
+          fiber: number | null
+          id: string
+          micronutrients: Json
+          name: string
+          protein: number | null
+          search: unknown | null
+          serving_desc: string | null
+          serving_g: number | null
+          source: string
+          source_id: string
+          updated_at: string
+        }
+        Insert: {
+          brand?: string | null
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          fiber?: number | null
+          id?: string
+          micronutrients?: Json
+          name: string
+          protein?: number | null
+          search?: never
+          serving_desc?: string | null
+          serving_g?: number | null
+          source: string
+          source_id: string
+          updated_at?: string
+        }
+        Update: {
+          brand?: string | null
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          fiber?: number | null
+          id?: string
+          micronutrients?: Json
+          name?: string
+          protein?: number | null
+          search?: never
+          serving_desc?: string | null
+          serving_g?: number | null
+          source?: string
+          source_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      meal_items: {
+        Row: {
+          calories: number | null
+          carbs: number | null
+          created_at: string
+          fat: number | null
+          fiber: number | null
+          food_id: string | null
+          grams: number | null
+          id: string
+          meal_id: string
+          micronutrients: Json | null
+          name: string
+          position: number
+          protein: number | null
+          qty: string
+          recipe_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          fiber?: number | null
+          food_id?: string | null
+          grams?: number | null
+          id?: string
+          meal_id: string
+          micronutrients?: Json | null
+          name: string
+          position?: number
+          protein?: number | null
+          qty: string
+          recipe_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          fiber?: number | null
+          food_id?: string | null
+          grams?: number | null
+          id?: string
+          meal_id?: string
+          micronutrients?: Json | null
+          name?: string
+          position?: number
+          protein?: number | null
+          qty?: string
+          recipe_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_items_food_id_fkey"
+            columns: ["food_id"]
+            isOneToOne: false
+            referencedRelation: "foods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_items_meal_id_fkey"
+            columns: ["meal_id"]
+            isOneToOne: false
+            referencedRelation: "meals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_items_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meals: {
         Row: {
           carbs: number | null
@@ -25,7 +197,9 @@ export type Database = {
           logged_at: string
           logged_date: string
           meal_name: string
+          meal_type: string | null
           micronutrients: Json | null
+          photo_path: string | null
           protein: number | null
           total_calories: number | null
           updated_at: string
@@ -41,7 +215,9 @@ export type Database = {
           logged_at?: string
           logged_date?: string
           meal_name: string
+          meal_type?: string | null
           micronutrients?: Json | null
+          photo_path?: string | null
           protein?: number | null
           total_calories?: number | null
           updated_at?: string
@@ -57,7 +233,9 @@ export type Database = {
           logged_at?: string
           logged_date?: string
           meal_name?: string
+          meal_type?: string | null
           micronutrients?: Json | null
+          photo_path?: string | null
           protein?: number | null
           total_calories?: number | null
           updated_at?: string
@@ -67,34 +245,185 @@ export type Database = {
       }
       profiles: {
         Row: {
+          birth_year: number | null
+          calorie_goal: number | null
+          carbs_goal: number | null
           created_at: string
           display_name: string | null
+          fat_goal: number | null
+          fiber_goal: number | null
           id: string
+          language: string | null
+          protein_goal: number | null
+          sex: string | null
+          timezone: string | null
+          units: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          birth_year?: number | null
+          calorie_goal?: number | null
+          carbs_goal?: number | null
           created_at?: string
           display_name?: string | null
+          fat_goal?: number | null
+          fiber_goal?: number | null
           id?: string
+          language?: string | null
+          protein_goal?: number | null
+          sex?: string | null
+          timezone?: string | null
+          units?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          birth_year?: number | null
+          calorie_goal?: number | null
+          carbs_goal?: number | null
           created_at?: string
           display_name?: string | null
+          fat_goal?: number | null
+          fiber_goal?: number | null
+          id?: string
+          language?: string | null
+          protein_goal?: number | null
+          sex?: string | null
+          timezone?: string | null
+          units?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      recipes: {
+        Row: {
+          calories: number | null
+          carbs: number | null
+          created_at: string
+          fat: number | null
+          fiber: number | null
+          id: string
+          ingredients: Json
+          micronutrients: Json
+          name: string
+          protein: number | null
+          serving_g: number | null
+          servings: number | null
+          total_grams: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          fiber?: number | null
+          id?: string
+          ingredients?: Json
+          micronutrients?: Json
+          name: string
+          protein?: number | null
+          serving_g?: number | null
+          servings?: number | null
+          total_grams?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          fiber?: number | null
           id?: string
+          ingredients?: Json
+          micronutrients?: Json
+          name?: string
+          protein?: number | null
+          serving_g?: number | null
+          servings?: number | null
+          total_grams?: number | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      saved_foods: {
+        Row: {
+          created_at: string
+          id: string
+          items: Json
+          last_used_at: string | null
+          meal_type: string | null
+          name: string
+          updated_at: string
+          use_count: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          items?: Json
+          last_used_at?: string | null
+          meal_type?: string | null
+          name: string
+          updated_at?: string
+          use_count?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          items?: Json
+          last_used_at?: string | null
+          meal_type?: string | null
+          name?: string
+          updated_at?: string
+          use_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      daily_nutrition: {
+        Row: {
+          calories: number | null
+          carbs: number | null
+          fat: number | null
+          fiber: number | null
+          logged_date: string | null
+          meal_count: number | null
+          protein: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      search_foods: {
+        Args: {
+          max_results?: number
+          search_text: string
+        }
+        Returns: {
+          brand: string
+          calories: number
+          carbs: number
+          fat: number
+          fiber: number
+          id: string
+          micronutrients: Json
+          name: string
+          protein: number
+          serving_desc: string
+          serving_g: number
+          source: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
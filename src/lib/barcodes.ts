@@ -0,0 +1,40 @@
+import type { TokenItem } from '@/lib/meals';
+import { FoodMatch, foodLabel, scaleFood } from '@/lib/foods';
+
+// Retail codes we can decode and look up: EAN-8, UPC-A, EAN-13 and, on outer
+// cartons, GTIN-14 as ITF-14 (the detector's "itf")
+export const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'itf'];
+
+// GS1 check digit: weights 3,1,3,... from the right, excluding the check digit
+export const isValidBarcode = (code: string) => {
+  if (!/^\d{8}$|^\d{12,14}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const check = digits.pop();
+  const sum = digits.reverse().reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// UPC-A and EAN-13 spell the same product with or without a leading zero,
+// and dumps are inconsistent about which they store
+export const barcodeVariants = (code: string) => {
+  const variants = new Set([code]);
+  if (code.length === 12) variants.add(`0${code}`);
+  if (code.length === 13 && code.startsWith('0')) variants.add(code.slice(1));
+  if (code.length === 14 && code.startsWith('0')) variants.add(code.slice(1));
+  return Array.from(variants);
+};
+
+// Weight of one serving; products without one are counted per 100 g
+export const servingGrams = (food: FoodMatch) => Number(food.serving_g) || 100;
+
+export const productToItem = (food: FoodMatch, servings: number): TokenItem => {
+  const grams = Math.round(servingGrams(food) * servings * 10) / 10;
+  const serving = food.serving_desc || `${servingGrams(food)} g`;
+  return {
+    qty: servings === 1 ? serving : `${servings} × ${serving}`,
+    n: foodLabel(food),
+    g: grams,
+    fid: food.id,
+    ...scaleFood(food, grams),
+  };
+};
@@ -0,0 +1,143 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { shiftDateString } from '@/lib/dates';
+import type { DaySummary } from '@/lib/trends';
+
+export type BodyMetric = Tables<'body_metrics'>;
+
+export type Units = 'metric' | 'imperial';
+
+export type MetricKey = 'weight_kg' | 'body_fat_pct' | 'waist_cm';
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+
+// Energy in a kilogram of body weight change, mostly fat: the usual 3500 kcal/lb
+export const KCAL_PER_KG = 7700;
+
+// Share of each new weigh-in taken into the trend (The Hacker's Diet uses 10%)
+export const TREND_SMOOTHING = 0.1;
+
+// Fewer than these and the estimate is mostly noise
+export const MIN_WEIGH_INS = 3;
+export const MIN_SPAN_DAYS = 14;
+export const MIN_LOGGED_DAYS = 7;
+
+export const getUnits = (profile: Tables<'profiles'> | null): Units => (profile?.units === 'imperial' ? 'imperial' : 'metric');
+
+// Labels and conversions between what is stored (kg, %, cm) and what is shown
+export const METRIC_FIELDS: Record<MetricKey, { label: string; unit: (units: Units) => string; toDisplay: (value: number, units: Units) => number; fromDisplay: (value: number, units: Units) => number }> = {
+  weight_kg: {
+    label: 'Weight',
+    unit: (units) => (units === 'imperial' ? 'lb' : 'kg'),
+    toDisplay: (value, units) => (units === 'imperial' ? value / KG_PER_LB : value),
+    fromDisplay: (value, units) => (units === 'imperial' ? value * KG_PER_LB : value),
+  },
+  body_fat_pct: {
+    label: 'Body fat',
+    unit: () => '%',
+    toDisplay: (value) => value,
+    fromDisplay: (value) => value,
+  },
+  waist_cm: {
+    label: 'Waist',
+    unit: (units) => (units === 'imperial' ? 'in' : 'cm'),
+    toDisplay: (value, units) => (units === 'imperial' ? value / CM_PER_IN : value),
+    fromDisplay: (value, units) => (units === 'imperial' ? value * CM_PER_IN : value),
+  },
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const formatMetric = (key: MetricKey, value: number, units: Units) =>
+  `${round1(METRIC_FIELDS[key].toDisplay(value, units))} ${METRIC_FIELDS[key].unit(units)}`;
+
+export interface WeightPoint {
+  date: string;
+  weight: number | null; // the day's weigh-in, in display units
+  trend: number | null; // smoothed weight, carried across days without a weigh-in
+}
+
+// Every day from `from` to `to` with an exponentially smoothed trend line.
+// Earlier weigh-ins in `metrics` seed the trend so it doesn't start cold.
+export const buildWeightSeries = (metrics: BodyMetric[], from: string, to: string, units: Units): WeightPoint[] => {
+  const weights = new Map<string, number>();
+  for (const metric of metrics) {
+    if (metric.weight_kg != null) weights.set(metric.measured_date, Number(metric.weight_kg));
+  }
+  const dates = Array.from(weights.keys()).sort();
+  if (!dates.length) return [];
+
+  const points: WeightPoint[] = [];
+  let trend: number | null = null;
+  const start = dates[0] < from ? dates[0] : from;
+  for (let date = start; date <= to; date = shiftDateString(date, 1)) {
+    const weight = weights.get(date);
+    if (weight !== undefined) trend = trend == null ? weight : trend + TREND_SMOOTHING * (weight - trend);
+    if (date < from) continue;
+    points.push({
+      date,
+      weight: weight !== undefined ? round1(METRIC_FIELDS.weight_kg.toDisplay(weight, units)) : null,
+      trend: trend != null ? round1(METRIC_FIELDS.weight_kg.toDisplay(trend, units)) : null,
+    });
+  }
+  return points;
+};
+
+export interface EnergyBalance {
+  tdee: number; // estimated daily expenditure, kcal
+  intake: number; // average over logged days, kcal
+  weeklyChangeKg: number; // fitted weight change per week; negative is loss
+  weighIns: number;
+  loggedDays: number;
+  spanDays: number;
+}
+
+// Least-squares slope of weight against day number, in kg per day
+const weightSlope = (points: { day: number; weight: number }[]) => {
+  const meanDay = points.reduce((sum, p) => sum + p.day, 0) / points.length;
+  const meanWeight = points.reduce((sum, p) => sum + p.weight, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const { day, weight } of points) {
+    covariance += (day - meanDay) * (weight - meanWeight);
+    variance += (day - meanDay) ** 2;
+  }
+  return variance ? covariance / variance : 0;
+};
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+
+// Expenditure from what was eaten and what the scale did: intake minus the
+// energy stored (or drawn) as weight. Only days with meals logged count
+// towards intake, since a forgotten day isn't a fast. Null until there are
+// enough weigh-ins over enough logged days to be meaningful.
+export const estimateEnergyBalance = (metrics: BodyMetric[], summaries: DaySummary[], from: string, to: string): EnergyBalance | null => {
+  const weighIns = metrics
+    .filter(metric => metric.weight_kg != null && metric.measured_date >= from && metric.measured_date <= to)
+    .map(metric => ({ date: metric.measured_date, weight: Number(metric.weight_kg) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (weighIns.length < MIN_WEIGH_INS) return null;
+
+  const first = weighIns[0].date;
+  const last = weighIns[weighIns.length - 1].date;
+  const spanDays = daysBetween(first, last);
+  if (spanDays < MIN_SPAN_DAYS) return null;
+
+  const logged = summaries.filter(summary => summary.date >= first && summary.date <= last && summary.calories > 0);
+  if (logged.length < MIN_LOGGED_DAYS) return null;
+
+  const intake = logged.reduce((sum, summary) => sum + summary.calories, 0) / logged.length;
+  const slope = weightSlope(weighIns.map(({ date, weight }) => ({ day: daysBetween(first, date), weight })));
+  return {
+    tdee: Math.round(intake - slope * KCAL_PER_KG),
+    intake: Math.round(intake),
+    weeklyChangeKg: Math.round(slope * 7 * 100) / 100,
+    weighIns: weighIns.length,
+    loggedDays: logged.length,
+    spanDays,
+  };
+};
+
+// Daily calories for a weekly change in kg, from the estimated expenditure
+export const calorieTargetFor = (balance: EnergyBalance, weeklyChangeKg: number) =>
+  Math.round(balance.tdee + (weeklyChangeKg * KCAL_PER_KG) / 7);
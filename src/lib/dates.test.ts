@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { fromZonedDateTime, resolveTimeHint, shiftDateString, toDateStringInTimeZone, toTimeStringInTimeZone } from '@/lib/dates';
+
+const NEW_YORK = 'America/New_York';
+const BERLIN = 'Europe/Berlin';
+
+describe('toDateStringInTimeZone', () => {
+  it.each([
+    ['2025-06-15T03:59:00Z', NEW_YORK, '2025-06-14'], // 23:59 EDT
+    ['2025-06-15T04:00:00Z', NEW_YORK, '2025-06-15'], // 00:00 EDT
+    ['2025-06-14T21:59:00Z', BERLIN, '2025-06-14'], // 23:59 CEST
+    ['2025-06-14T22:00:00Z', BERLIN, '2025-06-15'], // 00:00 CEST
+    ['2025-12-31T23:30:00Z', 'Asia/Tokyo', '2026-01-01'],
+    ['2025-03-09T04:59:00Z', NEW_YORK, '2025-03-08'], // 23:59 EST, the night before spring-forward
+    ['2025-03-09T05:00:00Z', NEW_YORK, '2025-03-09'],
+    ['2025-11-03T04:59:00Z', NEW_YORK, '2025-11-02'], // 23:59 EST, the evening after fall-back
+    ['2025-11-03T05:00:00Z', NEW_YORK, '2025-11-03'],
+  ])('%s in %s is %s', (instant, timeZone, expected) => {
+    expect(toDateStringInTimeZone(new Date(instant), timeZone)).toBe(expected);
+  });
+
+  it('falls back to UTC for an unknown zone', () => {
+    expect(toDateStringInTimeZone(new Date('2025-06-15T03:59:00Z'), 'Mars/Olympus_Mons')).toBe('2025-06-15');
+  });
+});
+
+describe('toTimeStringInTimeZone', () => {
+  it.each([
+    ['2025-06-15T03:59:00Z', NEW_YORK, '23:59'],
+    ['2025-06-15T04:00:00Z', NEW_YORK, '00:00'],
+    ['2025-03-09T07:00:00Z', NEW_YORK, '03:00'], // the first minute of EDT
+    ['2025-11-02T06:30:00Z', NEW_YORK, '01:30'], // the second 01:30, in EST
+  ])('%s in %s is %s', (instant, timeZone, expected) => {
+    expect(toTimeStringInTimeZone(new Date(instant), timeZone)).toBe(expected);
+  });
+});
+
+describe('shiftDateString', () => {
+  it.each([
+    ['2025-06-14', 1, '2025-06-15'],
+    ['2025-06-30', 1, '2025-07-01'],
+    ['2025-12-31', 1, '2026-01-01'],
+    ['2025-01-01', -1, '2024-12-31'],
+    ['2024-02-28', 1, '2024-02-29'],
+    ['2025-02-28', 1, '2025-03-01'],
+    ['2025-03-08', 1, '2025-03-09'], // spring-forward in the US
+    ['2025-03-09', 1, '2025-03-10'],
+    ['2025-11-02', -1, '2025-11-01'], // fall-back in the US
+    ['2025-11-02', 1, '2025-11-03'],
+    ['2025-06-14', -7, '2025-06-07'],
+    ['2025-06-14', 0, '2025-06-14'],
+  ])('%s shifted by %i is %s', (date, days, expected) => {
+    expect(shiftDateString(date, days)).toBe(expected);
+  });
+});
+
+describe('fromZonedDateTime', () => {
+  it.each([
+    ['2025-06-14', '23:59', NEW_YORK, '2025-06-15T03:59:00.000Z'],
+    ['2025-06-15', '00:00', NEW_YORK, '2025-06-15T04:00:00.000Z'],
+    ['2025-06-14', '23:59', BERLIN, '2025-06-14T21:59:00.000Z'],
+    ['2025-06-15', '00:00', BERLIN, '2025-06-14T22:00:00.000Z'],
+    ['2025-06-15', '12:00', 'Mars/Olympus_Mons', '2025-06-15T12:00:00.000Z'],
+  ])('%s %s in %s is %s', (date, time, timeZone, expected) => {
+    expect(fromZonedDateTime(date, time, timeZone).toISOString()).toBe(expected);
+  });
+
+  describe('on the spring-forward day', () => {
+    it.each([
+      ['00:00', '2025-03-09T05:00:00.000Z'],
+      ['01:59', '2025-03-09T06:59:00.000Z'],
+      ['03:00', '2025-03-09T07:00:00.000Z'],
+      ['23:59', '2025-03-10T03:59:00.000Z'],
+    ])('%s in New York is %s', (time, expected) => {
+      expect(fromZonedDateTime('2025-03-09', time, NEW_YORK).toISOString()).toBe(expected);
+    });
+
+    it('resolves a skipped time an hour earlier', () => {
+      const instant = fromZonedDateTime('2025-03-09', '02:30', NEW_YORK);
+      expect(instant.toISOString()).toBe('2025-03-09T06:30:00.000Z');
+      expect(toTimeStringInTimeZone(instant, NEW_YORK)).toBe('01:30');
+    });
+
+    it('handles zones ahead of UTC', () => {
+      expect(fromZonedDateTime('2025-03-30', '01:59', BERLIN).toISOString()).toBe('2025-03-30T00:59:00.000Z');
+      expect(fromZonedDateTime('2025-03-30', '03:00', BERLIN).toISOString()).toBe('2025-03-30T01:00:00.000Z');
+    });
+  });
+
+  describe('on the fall-back day', () => {
+    it.each([
+      ['00:00', '2025-11-02T04:00:00.000Z'],
+      ['00:59', '2025-11-02T04:59:00.000Z'],
+      ['02:00', '2025-11-02T07:00:00.000Z'],
+      ['23:59', '2025-11-03T04:59:00.000Z'],
+    ])('%s in New York is %s', (time, expected) => {
+      expect(fromZonedDateTime('2025-11-02', time, NEW_YORK).toISOString()).toBe(expected);
+    });
+
+    it('resolves a repeated time to a real instant at that wall-clock time', () => {
+      const instant = fromZonedDateTime('2025-11-02', '01:30', NEW_YORK);
+      expect(['2025-11-02T05:30:00.000Z', '2025-11-02T06:30:00.000Z']).toContain(instant.toISOString());
+      expect(toDateStringInTimeZone(instant, NEW_YORK)).toBe('2025-11-02');
+      expect(toTimeStringInTimeZone(instant, NEW_YORK)).toBe('01:30');
+    });
+
+    it('round-trips every quarter hour', () => {
+      for (let minutes = 0; minutes < 24 * 60; minutes += 15) {
+        const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+        const instant = fromZonedDateTime('2025-11-02', time, NEW_YORK);
+        expect(toTimeStringInTimeZone(instant, NEW_YORK)).toBe(time);
+        expect(toDateStringInTimeZone(instant, NEW_YORK)).toBe('2025-11-02');
+      }
+    });
+  });
+});
+
+describe('resolveTimeHint', () => {
+  const lateEvening = new Date('2025-06-15T03:30:00Z'); // 23:30 on the 14th in New York
+  const justAfterMidnight = new Date('2025-06-15T04:05:00Z'); // 00:05 on the 15th in New York
+
+  it.each([
+    [{ day_offset: 0 }, lateEvening, { date: '2025-06-14', time: '23:30' }],
+    [{ day_offset: -1, occasion: 'dinner' }, lateEvening, { date: '2025-06-13', time: '19:00' }],
+    [{ day_offset: 0, time: '21:15' }, lateEvening, { date: '2025-06-14', time: '21:15' }],
+    [{ day_offset: 0, occasion: 'snack' }, lateEvening, { date: '2025-06-14', time: '23:30' }],
+    [{ day_offset: 0 }, justAfterMidnight, { date: '2025-06-15', time: '00:05' }],
+    [{ day_offset: -1, occasion: 'breakfast' }, justAfterMidnight, { date: '2025-06-14', time: '08:00' }],
+    [{ day_offset: -1, time: '23:59' }, justAfterMidnight, { date: '2025-06-14', time: '23:59' }],
+  ])('%o at %s is %o', (hint, now, expected) => {
+    expect(resolveTimeHint(hint, NEW_YORK, now)).toEqual(expected);
+  });
+
+  it('counts days by the calendar across spring-forward', () => {
+    const morningAfter = new Date('2025-03-10T12:00:00Z'); // 08:00 EDT
+    expect(resolveTimeHint({ day_offset: -1, occasion: 'lunch' }, NEW_YORK, morningAfter)).toEqual({ date: '2025-03-09', time: '12:30' });
+    expect(resolveTimeHint({ day_offset: -2, occasion: 'dinner' }, NEW_YORK, morningAfter)).toEqual({ date: '2025-03-08', time: '19:00' });
+  });
+
+  it('counts days by the calendar across fall-back', () => {
+    const lateAfter = new Date('2025-11-03T04:30:00Z'); // 23:30 EST on the 2nd
+    expect(resolveTimeHint({ day_offset: 0 }, NEW_YORK, lateAfter)).toEqual({ date: '2025-11-02', time: '23:30' });
+    expect(resolveTimeHint({ day_offset: -1, occasion: 'dinner' }, NEW_YORK, lateAfter)).toEqual({ date: '2025-11-01', time: '19:00' });
+  });
+
+  it.each([
+    [{ day_offset: 0, minutes_ago: 180 }, lateEvening, { date: '2025-06-14', time: '20:30' }],
+    [{ day_offset: 0, minutes_ago: 30 }, justAfterMidnight, { date: '2025-06-14', time: '23:35' }],
+    [{ day_offset: -3, time: '12:00', minutes_ago: 60 }, lateEvening, { date: '2025-06-14', time: '22:30' }],
+  ])('counts %o back from %s', (hint, now, expected) => {
+    expect(resolveTimeHint(hint, NEW_YORK, now)).toEqual(expected);
+  });
+
+  it('counts minutes back in elapsed time across spring-forward', () => {
+    const afterSpringForward = new Date('2025-03-09T07:30:00Z'); // 03:30 EDT
+    expect(resolveTimeHint({ day_offset: 0, minutes_ago: 60 }, NEW_YORK, afterSpringForward)).toEqual({ date: '2025-03-09', time: '01:30' });
+  });
+});
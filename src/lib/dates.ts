@@ -0,0 +1,127 @@
+// Day-boundary helpers. A "date string" is a calendar day as stored in
+// meals.logged_date: YYYY-MM-DD, with no time zone attached.
+
+export const getBrowserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar day that the given instant falls on in the given zone
+export const toDateStringInTimeZone = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+};
+
+export const todayInTimeZone = (timeZone: string) => toDateStringInTimeZone(new Date(), timeZone);
+
+// Calendar pickers hand back local-midnight Dates; read their local fields
+// rather than toISOString(), which converts to UTC and can land on the
+// neighbouring day
+export const toDateString = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+// Local-midnight Date for a date string, suitable for calendar components
+export const fromDateString = (dateStr: string) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Add whole days to a date string. Done in UTC so DST transitions in the
+// browser's zone can't produce 23- or 25-hour "days".
+export const shiftDateString = (dateStr: string, days: number) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const shifted = new Date(Date.UTC(y, m - 1, d + days));
+  return shifted.toISOString().split('T')[0];
+};
+
+// Wall-clock time (HH:mm, 24h) of an instant in the given zone
+export const toTimeStringInTimeZone = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+  return `${get('hour')}:${get('minute')}`;
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const getTimeZoneOffset = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+};
+
+// Instant for a wall-clock date and time in the given zone. The offset is
+// re-read at the first guess so times either side of a DST switch resolve
+// correctly; a time skipped by spring-forward resolves an hour earlier.
+export const fromZonedDateTime = (dateStr: string, timeStr: string, timeZone: string) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const [hh, mm] = timeStr.split(':').map(Number);
+  const wallClock = Date.UTC(y, m - 1, d, hh || 0, mm || 0);
+
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset);
+};
+
+// Spoken time hint from the analyzer, e.g. "yesterday's dinner"
+export interface TimeHint {
+  day_offset: number;
+  time?: string;
+  minutes_ago?: number; // "three hours ago"; replaces day_offset and time
+  occasion?: string;
+}
+
+// Typical clock time for a named meal when no time was given
+export const OCCASION_TIMES: Record<string, string> = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  dinner: '19:00',
+};
+
+// Date and wall-clock time a hint refers to, in the user's zone. `now` is
+// when it was said, which for queued entries is when they were captured.
+export const resolveTimeHint = (hint: TimeHint, timeZone: string, now = new Date()) => {
+  if (hint.minutes_ago) {
+    const eaten = new Date(now.getTime() - hint.minutes_ago * 60_000);
+    return { date: toDateStringInTimeZone(eaten, timeZone), time: toTimeStringInTimeZone(eaten, timeZone) };
+  }
+  return {
+    date: shiftDateString(toDateStringInTimeZone(now, timeZone), hint.day_offset || 0),
+    time: hint.time || OCCASION_TIMES[hint.occasion || ''] || toTimeStringInTimeZone(now, timeZone),
+  };
+};
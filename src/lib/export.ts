@@ -0,0 +1,187 @@
+import { toTimeStringInTimeZone } from '@/lib/dates';
+import { Meal, MealItem, readMicronutrients } from '@/lib/meals';
+import { getMealType } from '@/lib/mealTypes';
+import { micronutrientName, micronutrientUnit } from '@/lib/micronutrients';
+
+export type ExportFormat = 'csv-meals' | 'csv-items' | 'json' | 'fhir';
+
+export const EXPORT_FORMATS: { key: ExportFormat; label: string; description: string }[] = [
+  { key: 'csv-meals', label: 'CSV, one row per meal', description: 'Meal totals, for spreadsheets and your dietitian' },
+  { key: 'csv-items', label: 'CSV, one row per item', description: 'Every food in every meal, with its quantity' },
+  { key: 'json', label: 'JSON', description: 'Everything stored, micronutrients included' },
+  { key: 'fhir', label: 'FHIR bundle', description: 'NutritionIntake records for health-record systems' },
+];
+
+export interface ExportRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const MACRO_COLUMNS = ['Calories (kcal)', 'Protein (g)', 'Carbs (g)', 'Fat (g)', 'Fiber (g)'];
+
+const toNumber = (value: number | null | undefined) => (value == null ? '' : Number(value));
+
+// Quote fields holding separators, quotes or line breaks, doubling inner quotes.
+// Text that a spreadsheet would read as a formula is prefixed with an apostrophe.
+const csvField = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The byte-order mark tells Excel the file is UTF-8, so units such as µg survive
+const toCsv = (rows: (string | number)[][]) => '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+// Every micronutrient key present, in a stable order so columns line up
+const micronutrientKeys = (blobs: Record<string, number>[]) =>
+  Array.from(new Set(blobs.flatMap(Object.keys))).sort((a, b) => micronutrientName(a).localeCompare(micronutrientName(b)));
+
+const micronutrientColumns = (keys: string[]) => keys.map(key => `${micronutrientName(key)} (${micronutrientUnit(key)})`);
+
+const sortedItems = (meal: Meal): MealItem[] => [...(meal.meal_items || [])].sort((a, b) => a.position - b.position);
+
+const mealColumns = (meal: Meal, timeZone: string) => [
+  meal.logged_date,
+  toTimeStringInTimeZone(new Date(meal.logged_at), timeZone),
+  getMealType(meal, timeZone),
+  meal.meal_name,
+];
+
+export const mealsToCsv = (meals: Meal[], timeZone: string) => {
+  const micros = meals.map(meal => readMicronutrients(meal.micronutrients));
+  const keys = micronutrientKeys(micros);
+  const rows = meals.map((meal, index) => [
+    ...mealColumns(meal, timeZone),
+    meal.description,
+    toNumber(meal.total_calories),
+    toNumber(meal.protein),
+    toNumber(meal.carbs),
+    toNumber(meal.fat),
+    toNumber(meal.fiber),
+    ...keys.map(key => micros[index][key] ?? ''),
+  ]);
+  return toCsv([['Date', 'Time', 'Meal type', 'Meal', 'Description', ...MACRO_COLUMNS, ...micronutrientColumns(keys)], ...rows]);
+};
+
+// Meals saved before itemisation get a single row carrying the meal's totals
+export const itemsToCsv = (meals: Meal[], timeZone: string) => {
+  const entries = meals.flatMap(meal => {
+    const items = sortedItems(meal);
+    if (!items.length) {
+      return [{ meal, qty: '', name: meal.meal_name, grams: null, source: 'meal total', macros: [meal.total_calories, meal.protein, meal.carbs, meal.fat, meal.fiber], micros: readMicronutrients(meal.micronutrients) }];
+    }
+    return items.map(item => ({
+      meal,
+      qty: item.qty,
+      name: item.name,
+      grams: item.grams,
+      source: item.recipe_id ? 'recipe' : item.food_id ? 'food database' : 'estimate',
+      macros: [item.calories, item.protein, item.carbs, item.fat, item.fiber],
+      micros: readMicronutrients(item.micronutrients),
+    }));
+  });
+  const keys = micronutrientKeys(entries.map(entry => entry.micros));
+  const rows = entries.map(entry => [
+    ...mealColumns(entry.meal, timeZone),
+    entry.qty,
+    entry.name,
+    toNumber(entry.grams),
+    entry.source,
+    ...entry.macros.map(toNumber),
+    ...keys.map(key => entry.micros[key] ?? ''),
+  ]);
+  return toCsv([['Date', 'Time', 'Meal type', 'Meal', 'Quantity', 'Item', 'Weight (g)', 'Source', ...MACRO_COLUMNS, ...micronutrientColumns(keys)], ...rows]);
+};
+
+// The rows as stored, items in order and micronutrients as plain objects
+export const mealsToJson = (meals: Meal[], range: ExportRange, exportedAt = new Date()) =>
+  JSON.stringify({
+    exported_at: exportedAt.toISOString(),
+    range,
+    meals: meals.map(meal => ({
+      ...meal,
+      micronutrients: readMicronutrients(meal.micronutrients),
+      meal_items: sortedItems(meal).map(item => ({ ...item, micronutrients: readMicronutrients(item.micronutrients) })),
+    })),
+  }, null, 2);
+
+// UCUM codes for the units our keys use; others are given as text only
+const UCUM_UNITS: Record<string, string> = { kcal: 'kcal', g: 'g', mg: 'mg', mcg: 'ug', iu: '[iU]' };
+
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+const quantity = (value: number, unit: string) => {
+  const code = UCUM_UNITS[unit.toLowerCase()];
+  return code ? { value, unit, system: UCUM_SYSTEM, code } : { value, unit };
+};
+
+const nutrient = (name: string, value: number | null | undefined, unit: string) =>
+  value == null ? [] : [{ nutrient: { concept: { text: name } }, amount: quantity(Number(value), unit) }];
+
+// A FHIR R5 collection Bundle with one NutritionIntake per meal: the foods as
+// consumedItem entries and the meal's totals as its ingredientLabel
+export const mealsToFhirBundle = (meals: Meal[], timeZone: string, exportedAt = new Date()) =>
+  JSON.stringify({
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: exportedAt.toISOString(),
+    entry: meals.map(meal => {
+      const items = sortedItems(meal);
+      const consumed = items.length ? items : [{ qty: '', name: meal.meal_name, grams: null }];
+      return {
+        fullUrl: `urn:uuid:${meal.id}`,
+        resource: {
+          resourceType: 'NutritionIntake',
+          id: meal.id,
+          status: 'completed',
+          code: { text: getMealType(meal, timeZone) },
+          subject: { identifier: { value: meal.user_id } },
+          occurrenceDateTime: meal.logged_at,
+          ...(meal.description ? { note: [{ text: meal.description }] } : {}),
+          consumedItem: consumed.map(item => ({
+            type: { text: 'food' },
+            nutritionProduct: { concept: { text: item.qty ? `${item.qty} ${item.name}` : item.name } },
+            ...(item.grams != null ? { amount: quantity(Number(item.grams), 'g') } : {}),
+          })),
+          ingredientLabel: [
+            ...nutrient('Energy', meal.total_calories, 'kcal'),
+            ...nutrient('Protein', meal.protein, 'g'),
+            ...nutrient('Carbohydrate', meal.carbs, 'g'),
+            ...nutrient('Fat', meal.fat, 'g'),
+            ...nutrient('Fiber', meal.fiber, 'g'),
+            ...Object.entries(readMicronutrients(meal.micronutrients)).flatMap(([key, value]) =>
+              nutrient(micronutrientName(key), value, key.slice(key.lastIndexOf('_') + 1))),
+          ],
+        },
+      };
+    }),
+  }, null, 2);
+
+export const buildExport = (format: ExportFormat, meals: Meal[], range: ExportRange, timeZone: string): ExportFile => {
+  const stem = `dinewell-${range.from}-to-${range.to}`;
+  switch (format) {
+    case 'csv-meals':
+      return { filename: `${stem}-meals.csv`, mimeType: 'text/csv', content: mealsToCsv(meals, timeZone) };
+    case 'csv-items':
+      return { filename: `${stem}-items.csv`, mimeType: 'text/csv', content: itemsToCsv(meals, timeZone) };
+    case 'json':
+      return { filename: `${stem}.json`, mimeType: 'application/json', content: mealsToJson(meals, range) };
+    case 'fhir':
+      return { filename: `${stem}-fhir.json`, mimeType: 'application/fhir+json', content: mealsToFhirBundle(meals, timeZone) };
+  }
+};
+
+// Hand the file to the browser as a download
+export const downloadFile = ({ filename, mimeType, content }: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
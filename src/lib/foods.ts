@@ -0,0 +1,45 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TokenItem } from '@/lib/meals';
+import { getItemMicronutrients } from '@/lib/meals';
+import { FoodMatch, foodLabel, portionGrams, scaleFood } from '../../supabase/functions/_shared/foods.ts';
+
+export { foodLabel, portionGrams, scaleFood };
+export type { FoodMatch };
+
+const FOOD_COLUMNS = 'id, source, name, brand, calories, protein, carbs, fat, fiber, micronutrients, serving_g, serving_desc';
+
+export const searchFoods = async (query: string, limit = 10) => {
+  const { data, error } = await supabase.rpc('search_foods', { search_text: query, max_results: limit });
+  if (error) throw error;
+  return (data || []) as FoodMatch[];
+};
+
+export const fetchFoods = async (ids: string[]) => {
+  if (!ids.length) return [];
+  const { data, error } = await supabase.from('foods').select(FOOD_COLUMNS).in('id', ids);
+  if (error) throw error;
+  return (data || []) as FoodMatch[];
+};
+
+// Packaged product by barcode, from the Open Food Facts rows (source_id is the code)
+export const fetchProductByBarcode = async (codes: string[]) => {
+  const { data, error } = await supabase
+    .from('foods')
+    .select(FOOD_COLUMNS)
+    .eq('source', 'off')
+    .in('source_id', codes)
+    .limit(1);
+  if (error) throw error;
+  return (data?.[0] ?? null) as FoodMatch | null;
+};
+
+// Replace an item's numbers with the food's, keeping what the user called it.
+// Estimated micronutrients are dropped rather than mixed with reference data,
+// and an item swapped to a food is no longer a portion of a recipe.
+export const applyFood = (item: TokenItem, food: FoodMatch, grams = portionGrams(item.g, food)): TokenItem => {
+  const rest: TokenItem = { ...item };
+  delete rest.rid;
+  for (const key of Object.keys(getItemMicronutrients(item))) delete rest[key];
+  for (const key of ['cal', 'p', 'c', 'f', 'fib']) delete rest[key];
+  return { ...rest, n: item.n || food.name, g: grams, fid: food.id, ...scaleFood(food, grams) };
+};
@@ -0,0 +1,51 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type GoalKey = 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber';
+
+export type GoalColumn = 'calorie_goal' | 'protein_goal' | 'carbs_goal' | 'fat_goal' | 'fiber_goal';
+
+export type NutritionGoals = Record<GoalKey, number | null>;
+
+export type NutritionTotals = Record<GoalKey, number>;
+
+export const GOAL_FIELDS: { key: GoalKey; column: GoalColumn; label: string; unit: string }[] = [
+  { key: 'calories', column: 'calorie_goal', label: 'Calories', unit: 'cal' },
+  { key: 'protein', column: 'protein_goal', label: 'Protein', unit: 'g' },
+  { key: 'carbs', column: 'carbs_goal', label: 'Carbs', unit: 'g' },
+  { key: 'fat', column: 'fat_goal', label: 'Fat', unit: 'g' },
+  { key: 'fiber', column: 'fiber_goal', label: 'Fiber', unit: 'g' },
+];
+
+// Slack allowed around each target before a day counts as off plan
+export const GOAL_TOLERANCE = 0.1;
+
+export const getGoals = (profile: Tables<'profiles'> | null): NutritionGoals => {
+  const goals = {} as NutritionGoals;
+  for (const { key, column } of GOAL_FIELDS) {
+    const value = profile?.[column];
+    goals[key] = value != null && Number(value) > 0 ? Number(value) : null;
+  }
+  return goals;
+};
+
+export const hasGoals = (goals: NutritionGoals) => GOAL_FIELDS.some(({ key }) => goals[key] != null);
+
+// Protein and fiber are floors, carbs and fat are ceilings, calories are a band
+export const isGoalMet = (key: GoalKey, consumed: number, goal: number) => {
+  switch (key) {
+    case 'calories':
+      return Math.abs(consumed - goal) <= goal * GOAL_TOLERANCE;
+    case 'protein':
+    case 'fiber':
+      return consumed >= goal * (1 - GOAL_TOLERANCE);
+    case 'carbs':
+    case 'fat':
+      return consumed <= goal * (1 + GOAL_TOLERANCE);
+  }
+};
+
+// null when the user hasn't set any targets
+export const isDayOnPlan = (totals: Partial<NutritionTotals>, goals: NutritionGoals) => {
+  if (!hasGoals(goals)) return null;
+  return GOAL_FIELDS.every(({ key }) => goals[key] == null || isGoalMet(key, totals[key] || 0, goals[key]));
+};
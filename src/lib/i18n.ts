@@ -0,0 +1,31 @@
+import type { Locale } from 'date-fns';
+import { de as deLocale } from 'date-fns/locale/de';
+import { enUS } from 'date-fns/locale/en-US';
+import { es as esLocale } from 'date-fns/locale/es';
+import { LANGUAGES, isLanguage, type Language } from '../../supabase/functions/_shared/languages.ts';
+import en, { type MessageKey, type Messages } from '@/locales/en';
+import es from '@/locales/es';
+import de from '@/locales/de';
+
+export { LANGUAGES, isLanguage };
+export type { Language, MessageKey };
+
+const CATALOGS: Record<Language, Messages> = { en, es, de };
+
+export const DATE_LOCALES: Record<Language, Locale> = { en: enUS, es: esLocale, de: deLocale };
+
+// First supported language the browser asks for, else English
+export const detectLanguage = (): Language => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const base = tag?.split('-')[0].toLowerCase();
+    if (isLanguage(base)) return base;
+  }
+  return 'en';
+};
+
+// Message for key in lang with {placeholders} filled from vars
+export const translate = (lang: Language, key: MessageKey, vars: Record<string, string | number> = {}) =>
+  CATALOGS[lang][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? String(vars[name]) : match,
+  );
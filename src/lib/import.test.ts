@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { detectSource, duplicateKey, importTotals, parseCsv, parseImport, parseImportDate, parseImportTime } from '@/lib/import';
+import myFitnessPal from '@/lib/__fixtures__/myfitnesspal.csv?raw';
+import cronometer from '@/lib/__fixtures__/cronometer.csv?raw';
+import loseIt from '@/lib/__fixtures__/loseit.csv?raw';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('reads quoted commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('name,note\n"Soup, ""Hearty""","line one\nline two"')).toEqual([
+      ['name', 'note'],
+      ['Soup, "Hearty"', 'line one\nline two'],
+    ]);
+  });
+
+  it('accepts CRLF and lone CR line endings', () => {
+    expect(parseCsv('a,b\r\n1,2\r3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('drops a byte order mark and blank rows', () => {
+    expect(parseCsv('\uFEFFa,b\n\n , \n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,2,')).toEqual([['a', '', 'c'], ['', '2', '']]);
+  });
+});
+
+describe('detectSource', () => {
+  it.each([
+    ['myfitnesspal', myFitnessPal],
+    ['cronometer', cronometer],
+    ['loseit', loseIt],
+  ])('recognises the %s fixture', (source, text) => {
+    expect(detectSource(parseCsv(text)[0])).toBe(source);
+  });
+
+  it('ignores case and surrounding spaces in headers', () => {
+    expect(detectSource([' DATE ', 'Name', 'type', 'Calories'])).toBe('loseit');
+  });
+
+  it('returns null for anything else', () => {
+    expect(detectSource(['date', 'description', 'amount'])).toBeNull();
+    expect(detectSource([])).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it.each([
+    ['2024-03-05', '2024-03-05'],
+    ['2024-3-5', '2024-03-05'],
+    ['2024-03-05 08:15:00', '2024-03-05'],
+    ['3/5/2024', '2024-03-05'],
+    ['03/05/24', '2024-03-05'],
+    [' 12/31/2024 ', '2024-12-31'],
+    ['2/29/2024', '2024-02-29'],
+    ['2024-04-30', '2024-04-30'],
+  ])('reads %j as %s', (value, expected) => {
+    expect(parseImportDate(value)).toBe(expected);
+  });
+
+  it.each(['', 'yesterday', '2/31/2024', '2/29/2023', '2024-04-31', '2024-13-01', '13/05/2024', '0/5/2024', '3/0/2024', '3/5'])('rejects %j', (value) => {
+    expect(parseImportDate(value)).toBeNull();
+  });
+});
+
+describe('parseImportTime', () => {
+  it.each([
+    ['14:05', '14:05'],
+    ['7:45', '07:45'],
+    ['2:05 PM', '14:05'],
+    ['02:05:00 pm', '14:05'],
+    ['12:10 AM', '00:10'],
+    ['12:10 PM', '12:10'],
+    ['11:59pm', '23:59'],
+  ])('reads %j as %s', (value, expected) => {
+    expect(parseImportTime(value)).toBe(expected);
+  });
+
+  it.each([undefined, '', 'noon', '24:00', '7', '7:5'])('rejects %j', (value) => {
+    expect(parseImportTime(value)).toBeNull();
+  });
+});
+
+describe('parseImport', () => {
+  it('returns null for an unrecognised file', () => {
+    expect(parseImport('date,description,amount\n2024-03-05,Coffee,3.50')).toBeNull();
+    expect(parseImport('')).toBeNull();
+  });
+
+  it('reads a MyFitnessPal nutrition export', () => {
+    const parsed = parseImport(myFitnessPal)!;
+    expect(parsed.source).toBe('myfitnesspal');
+    expect(parsed.skipped).toBe(1); // 2/31/2024
+    expect(parsed.meals.map(meal => [meal.date, meal.time, meal.meal_type])).toEqual([
+      ['2024-03-05', '07:45', 'breakfast'],
+      ['2024-03-05', '12:30', 'lunch'],
+      ['2024-03-05', null, 'snack'],
+      ['2024-03-06', '19:10', 'dinner'],
+    ]);
+
+    const [breakfast, lunch] = parsed.meals;
+    expect(breakfast.items).toEqual([{
+      qty: '1 serving',
+      n: 'Breakfast (MyFitnessPal)',
+      cal: 420,
+      p: 22,
+      c: 55,
+      f: 12.5,
+      fib: 6,
+      chol_mg: 210,
+      na_mg: 480,
+      k_mg: 390,
+      vitc_mg: 15, // 25% of 60 mg
+      ca_mg: 150, // 15% of 1000 mg
+      fe_mg: 3.6, // 20% of 18 mg
+    }]);
+    expect(breakfast.meal_name).toBe('1 serving Breakfast (MyFitnessPal)');
+    expect(lunch.items[0]).toMatchObject({ cal: 1150, na_mg: 1820 });
+  });
+
+  it('reads a Cronometer servings export', () => {
+    const parsed = parseImport(cronometer)!;
+    expect(parsed.source).toBe('cronometer');
+    expect(parsed.skipped).toBe(1); // "not a date"
+    expect(parsed.meals.map(meal => [meal.date, meal.meal_type, meal.items.map(item => item.n)])).toEqual([
+      ['2024-03-05', 'breakfast', ['Oats, Rolled, Dry', 'Milk, 2%']],
+      ['2024-03-05', 'lunch', ['Soup, "Hearty" Lentil']],
+      ['2024-03-05', 'dinner', ['Dark Chocolate 70%']], // "Uncategorized" at 20:30
+    ]);
+
+    const [breakfast] = parsed.meals;
+    expect(breakfast.items[0]).toMatchObject({ qty: '40.00 g', g: 40, cal: 151.6, c: 27.1, fib: 4, f: 2.6, p: 5.3, fe_mg: 1.7, mg_mg: 55 });
+    expect(breakfast.items[1]).toMatchObject({ qty: '1 cup', vitd_mcg: 3, b12_mcg: 1.3, ca_mg: 293 }); // 120 IU of vitamin D
+    expect(breakfast.items[1]).not.toHaveProperty('g');
+    expect(breakfast.meal_name).toBe('40.00 g Oats, Rolled, Dry, 1 cup Milk, 2%');
+  });
+
+  it('reads a Lose It! food log, leaving out exercise', () => {
+    const parsed = parseImport(loseIt)!;
+    expect(parsed.source).toBe('loseit');
+    expect(parsed.skipped).toBe(1); // Running
+    expect(parsed.meals.map(meal => [meal.date, meal.time, meal.meal_type, meal.meal_name])).toEqual([
+      ['2024-03-05', null, 'snack', '1 Medium Apple'],
+      ['2024-03-05', null, 'dinner', '1 Bowl Chicken Caesar Salad'],
+      ['2024-03-06', null, 'breakfast', '2 Each Scrambled Eggs, 1 Slice Toast, Whole Wheat'],
+    ]);
+    expect(parsed.meals[2].items[1]).toEqual({ qty: '1 Slice', n: 'Toast, Whole Wheat', cal: 81, p: 4, c: 13.8, f: 1.1, fib: 1.9, chol_mg: 0, na_mg: 146 });
+  });
+});
+
+describe('importTotals', () => {
+  it('adds up macros and micronutrients across items', () => {
+    const { meals } = parseImport(cronometer)!;
+    const totals = importTotals(meals[0].items);
+    expect(totals).toMatchObject({ total_calories: 273.6, protein: 13.4, carbs: 38.8, fat: 7.4, fiber: 4 });
+    expect(totals.micronutrients).toMatchObject({ ca_mg: 314, k_mg: 485, vitd_mcg: 3 });
+  });
+});
+
+describe('duplicateKey', () => {
+  it('ignores case and surrounding spaces in the name', () => {
+    expect(duplicateKey('2024-03-05', ' 1 Medium Apple ')).toBe(duplicateKey('2024-03-05', '1 medium apple'));
+    expect(duplicateKey('2024-03-05', 'Apple')).not.toBe(duplicateKey('2024-03-06', 'Apple'));
+  });
+});
@@ -0,0 +1,284 @@
+import type { TokenItem } from '@/lib/meals';
+import { KNOWN_KEYS } from '@/lib/meals';
+import { MealType, mealTypeForTime } from '@/lib/mealTypes';
+
+export type ImportSource = 'myfitnesspal' | 'cronometer' | 'loseit';
+
+// A nutrient column: the TokenItem key it fills and the factor to our unit
+type ColumnMap = Record<string, [string, number]>;
+
+interface ImportFormat {
+  label: string;
+  required: string[]; // lower-cased headers that identify the export
+  date: string;
+  time?: string;
+  meal: string;
+  name?: string; // absent when each row is a whole meal rather than a food
+  quantity: (row: Record<string, string>) => string;
+  columns: ColumnMap;
+}
+
+// MyFitnessPal reports these as % of the old (pre-2016) FDA Daily Values
+const MFP_DAILY_VALUES: ColumnMap = {
+  'vitamin c': ['vitc_mg', 60 / 100],
+  'calcium': ['ca_mg', 1000 / 100],
+  'iron': ['fe_mg', 18 / 100],
+};
+
+export const IMPORT_FORMATS: Record<ImportSource, ImportFormat> = {
+  // "Nutrition" export: one row per meal per day, totals only
+  myfitnesspal: {
+    label: 'MyFitnessPal',
+    required: ['date', 'meal', 'calories', 'carbohydrates (g)'],
+    date: 'date',
+    time: 'time',
+    meal: 'meal',
+    quantity: () => '1 serving',
+    columns: {
+      'calories': ['cal', 1],
+      'protein (g)': ['p', 1],
+      'carbohydrates (g)': ['c', 1],
+      'fat (g)': ['f', 1],
+      'fiber': ['fib', 1],
+      'cholesterol': ['chol_mg', 1],
+      'sodium (mg)': ['na_mg', 1],
+      'potassium': ['k_mg', 1],
+      ...MFP_DAILY_VALUES,
+    },
+  },
+  // "Servings" export: one row per food
+  cronometer: {
+    label: 'Cronometer',
+    required: ['day', 'group', 'food name', 'energy (kcal)'],
+    date: 'day',
+    time: 'time',
+    meal: 'group',
+    name: 'food name',
+    quantity: (row) => row['amount'] || '1 serving',
+    columns: {
+      'energy (kcal)': ['cal', 1],
+      'protein (g)': ['p', 1],
+      'carbs (g)': ['c', 1],
+      'fat (g)': ['f', 1],
+      'fiber (g)': ['fib', 1],
+      'vitamin a (µg)': ['vita_mcg', 1],
+      'vitamin c (mg)': ['vitc_mg', 1],
+      'vitamin d (iu)': ['vitd_mcg', 1 / 40],
+      'vitamin e (mg)': ['vite_mg', 1],
+      'vitamin k (µg)': ['vitk_mcg', 1],
+      'b1 (thiamine) (mg)': ['b1_mg', 1],
+      'b2 (riboflavin) (mg)': ['b2_mg', 1],
+      'b3 (niacin) (mg)': ['b3_mg', 1],
+      'b6 (pyridoxine) (mg)': ['b6_mg', 1],
+      'b12 (cobalamin) (µg)': ['b12_mcg', 1],
+      'folate (µg)': ['fol_mcg', 1],
+      'calcium (mg)': ['ca_mg', 1],
+      'iron (mg)': ['fe_mg', 1],
+      'magnesium (mg)': ['mg_mg', 1],
+      'phosphorus (mg)': ['p_mg', 1],
+      'potassium (mg)': ['k_mg', 1],
+      'zinc (mg)': ['zn_mg', 1],
+      'selenium (µg)': ['se_mcg', 1],
+      'sodium (mg)': ['na_mg', 1],
+      'cholesterol (mg)': ['chol_mg', 1],
+    },
+  },
+  // Food log export: one row per food, exercise included
+  loseit: {
+    label: 'Lose It!',
+    required: ['date', 'name', 'type', 'calories'],
+    date: 'date',
+    meal: 'type',
+    name: 'name',
+    quantity: (row) => [row['quantity'], row['units']].filter(Boolean).join(' ') || '1 serving',
+    columns: {
+      'calories': ['cal', 1],
+      'protein (g)': ['p', 1],
+      'carbohydrates (g)': ['c', 1],
+      'fat (g)': ['f', 1],
+      'fiber (g)': ['fib', 1],
+      'cholesterol (mg)': ['chol_mg', 1],
+      'sodium (mg)': ['na_mg', 1],
+    },
+  },
+};
+
+export interface ImportedMeal {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:mm, when the export records it
+  meal_type: MealType;
+  meal_name: string;
+  items: TokenItem[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  meals: ImportedMeal[]; // in date order
+  skipped: number; // rows without a readable date, or exercise
+}
+
+// RFC 4180 parsing of a whole file: quoted fields may hold commas, quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value.trim())) rows.push(row);
+  return rows;
+};
+
+export const detectSource = (headers: string[]): ImportSource | null => {
+  const present = new Set(headers.map(header => header.trim().toLowerCase()));
+  return (Object.keys(IMPORT_FORMATS) as ImportSource[])
+    .find(source => IMPORT_FORMATS[source].required.every(header => present.has(header))) ?? null;
+};
+
+// "2024-03-05", "3/5/2024" or "03/05/24" (US month first)
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  const [y, m, d] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3].length === 2 ? `20${us[3]}` : us[3]), Number(us[1]), Number(us[2])]
+      : [0, 0, 0];
+  // Day 0 of the next month is the last of this one, so 2/31 and 2/29/2023 fail
+  if (!y || m < 1 || m > 12 || d < 1 || d > new Date(Date.UTC(y, m, 0)).getUTCDate()) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+// "14:05", "2:05 PM" or "02:05:00 pm" as HH:mm
+export const parseImportTime = (value: string | undefined): string | null => {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+// The trackers' meal names; anything else falls back to the time of day, or a snack
+const toMealType = (value: string, time: string | null): MealType | 'exercise' => {
+  const name = value.trim().toLowerCase();
+  if (name === 'exercise' || name === 'exercises') return 'exercise';
+  if (name === 'breakfast' || name === 'lunch' || name === 'dinner') return name;
+  if (name.startsWith('snack')) return 'snack';
+  return time ? mealTypeForTime(time) : 'snack';
+};
+
+const readNumber = (value: string | undefined) => {
+  const number = Number((value ?? '').replace(/,/g, '').trim());
+  return value?.trim() && Number.isFinite(number) ? number : undefined;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toItem = (format: ImportFormat, row: Record<string, string>): TokenItem => {
+  const item: TokenItem = {
+    qty: format.quantity(row),
+    n: format.name ? row[format.name]?.trim() || 'Food' : `${row[format.meal]?.trim() || 'Meal'} (${format.label})`,
+  };
+  for (const [column, [key, factor]] of Object.entries(format.columns)) {
+    const value = readNumber(row[column]);
+    if (value !== undefined) item[key] = round2(value * factor);
+  }
+  // Weights such as Cronometer's "150.00 g" double as grams
+  const grams = item.qty.match(/^(\d+(?:\.\d+)?)\s*g$/i);
+  if (grams) item.g = Number(grams[1]);
+  return item;
+};
+
+// Same naming as a meal confirmed in the app, so duplicates compare like for like
+export const mealNameFor = (items: TokenItem[]) => items.map(item => `${item.qty} ${item.n}`.trim()).filter(Boolean).join(', ');
+
+// Rows grouped into meals by day and meal type, keeping the export's order within each
+export const parseImport = (text: string): ParsedImport | null => {
+  const [headers, ...rows] = parseCsv(text);
+  const source = headers ? detectSource(headers) : null;
+  if (!source) return null;
+
+  const format = IMPORT_FORMATS[source];
+  const keys = headers.map(header => header.trim().toLowerCase());
+  const meals = new Map<string, ImportedMeal>();
+  let skipped = 0;
+
+  for (const fields of rows) {
+    const row: Record<string, string> = {};
+    keys.forEach((key, i) => { row[key] = fields[i] ?? ''; });
+
+    const date = parseImportDate(row[format.date] ?? '');
+    const time = format.time ? parseImportTime(row[format.time]) : null;
+    const mealType = toMealType(row[format.meal] ?? '', time);
+    if (!date || mealType === 'exercise') {
+      skipped++;
+      continue;
+    }
+
+    const key = `${date}|${mealType}`;
+    const meal = meals.get(key) ?? { date, time, meal_type: mealType, meal_name: '', items: [] };
+    meal.items.push(toItem(format, row));
+    meals.set(key, meal);
+  }
+
+  const sorted = Array.from(meals.values())
+    .map(meal => ({ ...meal, meal_name: mealNameFor(meal.items) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { source, meals: sorted, skipped };
+};
+
+// Meal-level totals as stored on the meals row
+export const importTotals = (items: TokenItem[]) => {
+  const totals = { total_calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, micronutrients: {} as Record<string, number> };
+  for (const item of items) {
+    totals.total_calories += Number(item.cal || 0);
+    totals.protein += Number(item.p || 0);
+    totals.carbs += Number(item.c || 0);
+    totals.fat += Number(item.f || 0);
+    totals.fiber += Number(item.fib || 0);
+    for (const [key, value] of Object.entries(item)) {
+      if (!KNOWN_KEYS.has(key) && typeof value === 'number') totals.micronutrients[key] = round2((totals.micronutrients[key] || 0) + value);
+    }
+  }
+  return {
+    ...totals,
+    total_calories: round2(totals.total_calories),
+    protein: round2(totals.protein),
+    carbs: round2(totals.carbs),
+    fat: round2(totals.fat),
+    fiber: round2(totals.fiber),
+  };
+};
+
+// Key for spotting an entry already in the ledger: same day, same name
+export const duplicateKey = (date: string, mealName: string) => `${date}|${mealName.trim().toLowerCase()}`;
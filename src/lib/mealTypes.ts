@@ -0,0 +1,51 @@
+import { toTimeStringInTimeZone } from '@/lib/dates';
+import type { Meal } from '@/lib/meals';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// Display order for grouped lists
+export const MEAL_TYPES: { key: MealType; label: string }[] = [
+  { key: 'breakfast', label: 'Breakfast' },
+  { key: 'lunch', label: 'Lunch' },
+  { key: 'dinner', label: 'Dinner' },
+  { key: 'snack', label: 'Snack' },
+];
+
+export const isMealType = (value: unknown): value is MealType =>
+  typeof value === 'string' && MEAL_TYPES.some(type => type.key === value);
+
+// Local "HH:mm" windows for each main meal; anything in between is a snack.
+// Keep in step with the backfill in the meal_type migration.
+const MEAL_WINDOWS: { key: MealType; from: string; to: string }[] = [
+  { key: 'breakfast', from: '05:00', to: '10:30' },
+  { key: 'lunch', from: '11:00', to: '14:30' },
+  { key: 'dinner', from: '17:00', to: '21:30' },
+];
+
+export const mealTypeForTime = (time: string): MealType =>
+  MEAL_WINDOWS.find(window => time >= window.from && time < window.to)?.key ?? 'snack';
+
+// Meals saved before classification existed fall back to their time of day
+export const getMealType = (meal: Meal, timeZone: string): MealType =>
+  isMealType(meal.meal_type)
+    ? meal.meal_type
+    : mealTypeForTime(toTimeStringInTimeZone(new Date(meal.logged_at), timeZone));
+
+export interface MealGroup {
+  key: MealType;
+  label: string;
+  meals: Meal[];
+  calories: number;
+}
+
+// Non-empty groups in display order, keeping each group's meals in the given order
+export const groupMealsByType = (meals: Meal[], timeZone: string): MealGroup[] =>
+  MEAL_TYPES.map(({ key, label }) => {
+    const grouped = meals.filter(meal => getMealType(meal, timeZone) === key);
+    return {
+      key,
+      label,
+      meals: grouped,
+      calories: grouped.reduce((sum, meal) => sum + Number(meal.total_calories || 0), 0),
+    };
+  }).filter(group => group.meals.length > 0);
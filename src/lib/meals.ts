@@ -0,0 +1,121 @@
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+
+// Token-optimized item schema
+export interface TokenItem {
+  qty: string;
+  n: string;
+  cal?: number;
+  p?: number;
+  c?: number;
+  f?: number;
+  fib?: number;
+  g?: number; // weight in grams, when known
+  fid?: string; // matched foods.id; absent when the numbers are estimates
+  rid?: string; // recipes.id when logged as a portion of one of the user's recipes
+  conf?: number; // analyzer's confidence in the food and amount, 0-1; not stored
+  // Micronutrients: [abbr]_[unit]
+  [key: string]: string | number | undefined;
+}
+
+export type MealItem = Tables<'meal_items'>;
+
+export interface Meal {
+  id: string;
+  user_id: string;
+  meal_name: string;
+  description: string;
+  total_calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  micronutrients: Json;
+  logged_at: string;
+  logged_date: string;
+  meal_type: string | null;
+  photo_path: string | null;
+  meal_items?: MealItem[];
+}
+
+// Macro and bookkeeping keys; everything else numeric on a TokenItem is a micronutrient
+export const KNOWN_KEYS = new Set(["qty", "n", "cal", "p", "c", "f", "fib", "g", "fid", "rid", "conf"]);
+
+// Below this the analyzer was guessing, and the user is asked to fill in the gaps
+export const LOW_CONFIDENCE = 0.6;
+
+export const isLowConfidence = (item: TokenItem) => typeof item.conf === 'number' && item.conf < LOW_CONFIDENCE;
+
+// Registry keys (see lib/micronutrients) and older free-form ones such as vc_mg
+export const MICRONUTRIENT_KEY_PATTERN = /^(?:[a-z][a-z0-9]{0,3})_(?:mg|mcg|iu|g|mgdL|mmolL)$/i;
+
+export const getItemMicronutrients = (item: TokenItem) => {
+  const micros: Record<string, number> = {};
+  for (const [k, v] of Object.entries(item)) {
+    if (!KNOWN_KEYS.has(k) && typeof v === 'number') micros[k] = v;
+  }
+  return micros;
+};
+
+// Numeric entries of a stored micronutrients JSONB blob
+export const readMicronutrients = (value: Json | null): Record<string, number> => {
+  const micros: Record<string, number> = {};
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value)) {
+      if (typeof v === 'number') micros[k] = v;
+    }
+  }
+  return micros;
+};
+
+// Map edited TokenItems to meal_items rows, preserving their order
+export const toMealItemRows = (mealId: string, userId: string, items: TokenItem[]): TablesInsert<'meal_items'>[] =>
+  items.map((item, position) => ({
+    meal_id: mealId,
+    user_id: userId,
+    position,
+    qty: item.qty,
+    name: item.n,
+    calories: item.cal ?? null,
+    protein: item.p ?? null,
+    carbs: item.c ?? null,
+    fat: item.f ?? null,
+    fiber: item.fib ?? null,
+    grams: item.g ?? null,
+    food_id: item.fid ?? null,
+    recipe_id: item.rid ?? null,
+    micronutrients: getItemMicronutrients(item) as Json,
+  }));
+
+// Inverse of toMealItemRows, for reopening a stored meal in the editor
+export const fromMealItemRows = (rows: MealItem[]): TokenItem[] =>
+  [...rows]
+    .sort((a, b) => a.position - b.position)
+    .map((row) => {
+      const item: TokenItem = { qty: row.qty, n: row.name };
+      if (row.calories != null) item.cal = Number(row.calories);
+      if (row.protein != null) item.p = Number(row.protein);
+      if (row.carbs != null) item.c = Number(row.carbs);
+      if (row.fat != null) item.f = Number(row.fat);
+      if (row.fiber != null) item.fib = Number(row.fiber);
+      if (row.grams != null) item.g = Number(row.grams);
+      if (row.food_id) item.fid = row.food_id;
+      if (row.recipe_id) item.rid = row.recipe_id;
+      return { ...item, ...readMicronutrients(row.micronutrients) };
+    });
+
+// Editable items for a stored meal; meals logged before meal_items existed
+// fall back to a single item carrying the stored totals
+export const mealToTokenItems = (meal: Meal): TokenItem[] => {
+  if (meal.meal_items?.length) return fromMealItemRows(meal.meal_items);
+
+  const item: TokenItem = {
+    qty: '1 serving',
+    n: meal.meal_name,
+    cal: Number(meal.total_calories) || 0,
+    p: Number(meal.protein) || 0,
+    c: Number(meal.carbs) || 0,
+    f: Number(meal.fat) || 0,
+    fib: Number(meal.fiber) || 0,
+  };
+  return [{ ...item, ...readMicronutrients(meal.micronutrients) }];
+};
@@ -0,0 +1,49 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { Meal } from '@/lib/meals';
+import { readMicronutrients } from '@/lib/meals';
+import { MICRONUTRIENTS, MicronutrientInfo } from '../../supabase/functions/_shared/micronutrients.ts';
+
+export { MICRONUTRIENTS };
+export type { MicronutrientInfo };
+
+// Adult default when the birth year is unknown
+const DEFAULT_AGE = 30;
+
+const UNIT_SYMBOLS: Record<string, string> = { mcg: 'µg', mgdl: 'mg/dL', mmoll: 'mmol/L' };
+
+export const getMicronutrientInfo = (key: string): MicronutrientInfo | undefined => MICRONUTRIENTS[key.toLowerCase()];
+
+// "Iron" for fe_mg; keys stored before the registry existed fall back to the raw key
+export const micronutrientName = (key: string) => getMicronutrientInfo(key)?.name ?? key.replace(/_[^_]+$/, '').toUpperCase();
+
+// The unit is always the key's suffix, registry or not
+export const micronutrientUnit = (key: string) => {
+  const suffix = key.slice(key.lastIndexOf('_') + 1).toLowerCase();
+  return UNIT_SYMBOLS[suffix] ?? suffix;
+};
+
+export const formatMicronutrient = (key: string, value: number) =>
+  `${Math.round(value * 10) / 10} ${micronutrientUnit(key)}`;
+
+// Daily target for the profile's sex and age, or the FDA Daily Value
+export const getDailyTarget = (info: MicronutrientInfo, profile: Tables<'profiles'> | null, now = new Date()) => {
+  const bands = profile?.sex === 'male' ? info.male : profile?.sex === 'female' ? info.female : null;
+  if (!bands) return info.dv;
+
+  const age = profile?.birth_year ? now.getFullYear() - profile.birth_year : DEFAULT_AGE;
+  let target = bands[0][1];
+  for (const [minAge, amount] of bands) {
+    if (age >= minAge) target = amount;
+  }
+  return target;
+};
+
+export const sumMicronutrients = (meals: Pick<Meal, 'micronutrients'>[]) => {
+  const totals: Record<string, number> = {};
+  for (const meal of meals) {
+    for (const [key, value] of Object.entries(readMicronutrients(meal.micronutrients))) {
+      totals[key] = (totals[key] || 0) + value;
+    }
+  }
+  return totals;
+};
@@ -0,0 +1,81 @@
+import type { TokenItem } from '@/lib/meals';
+import type { MealType } from '@/lib/mealTypes';
+import type { NutritionWarning } from '@/lib/validation';
+import type { ClarifyingQuestion } from '@/lib/nutritionApi';
+import type { TimeHint } from '@/lib/dates';
+
+// Captures that couldn't be analysed yet (usually because we were offline).
+// Audio blobs and typed notes wait here until the network returns; once
+// analysed they stay queued as "ready" until the user reviews them. Entries
+// the server keeps turning down are marked "failed" and no longer retried.
+export interface PendingEntry {
+  id: string;
+  userId: string; // the queue lives in the browser, shared by every account on it
+  kind: 'audio' | 'text';
+  audio?: Blob;
+  text?: string;
+  capturedAt: string; // ISO timestamp, becomes meals.logged_at
+  status: 'pending' | 'ready' | 'failed';
+  attempts: number;
+  lastError?: string;
+  items?: TokenItem[];
+  transcript?: string;
+  mealType?: MealType;
+  when?: TimeHint; // resolved against capturedAt, not the time of review
+  warnings?: NutritionWarning[];
+  questions?: ClarifyingQuestion[];
+}
+
+const DB_NAME = 'sir-dinewell';
+const DB_VERSION = 1;
+const STORE = 'pending_entries';
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const listPendingEntries = async (userId: string) => {
+  const entries = await withStore<PendingEntry[]>('readonly', store => store.getAll());
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+};
+
+export const putPendingEntry = (entry: PendingEntry) =>
+  withStore('readwrite', store => store.put(entry));
+
+export const removePendingEntry = (id: string) =>
+  withStore('readwrite', store => store.delete(id));
+
+export const createPendingEntry = (
+  fields: Pick<PendingEntry, 'userId' | 'kind' | 'audio' | 'text' | 'capturedAt'>
+): PendingEntry => ({
+  id: crypto.randomUUID(),
+  status: 'pending',
+  attempts: 0,
+  ...fields,
+});
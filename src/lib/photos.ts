@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const BUCKET = 'meal-photos';
+
+// Longest edge sent for analysis and stored; plenty for a plate of food
+const MAX_DIMENSION = 1280;
+const JPEG_QUALITY = 0.85;
+
+// Signed thumbnail links last an hour; cards re-request on the next load
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Phone photos are often 5-10 MB; downscale to a JPEG before uploading anywhere
+export const resizeImage = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Unable to encode photo'))), 'image/jpeg', JPEG_QUALITY)
+  );
+};
+
+// Returns the storage path to keep in meals.photo_path
+export const uploadMealPhoto = async (userId: string, photo: Blob) => {
+  const path = `${userId}/${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, photo, { contentType: 'image/jpeg' });
+  if (error) throw error;
+  return path;
+};
+
+export const getMealPhotoUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const removeMealPhoto = async (path: string) => {
+  const { error } = await supabase.storage.from(BUCKET).remove([path]);
+  if (error) throw error;
+};
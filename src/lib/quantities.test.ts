@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuantity, quantityGrams, quantityRatio, rescaleItem } from '@/lib/quantities';
+
+describe('parseQuantity', () => {
+  it.each([
+    // Plain numbers and decimals
+    ['2 slices', 2, 'count', 'slice'],
+    ['2.5 cups', 591.47, 'volume', ''],
+    ['1,5 tazas', 354.882, 'volume', ''],
+    ['3', 3, 'count', ''],
+    // Fractions
+    ['3/4 cup', 177.441, 'volume', ''],
+    ['1 1/2 cups', 354.882, 'volume', ''],
+    ['½ cup', 118.294, 'volume', ''],
+    ['1½ tbsp', 22.1802, 'volume', ''],
+    ['¼ lb', 113.398, 'mass', ''],
+    // Ranges take the midpoint
+    ['2-3 slices', 2.5, 'count', 'slice'],
+    ['1 - 2 eggs', 1.5, 'count', 'egg'],
+    ['100-200g', 150, 'mass', ''],
+    // Number words, stacked and in other languages
+    ['half a cup', 118.294, 'volume', ''],
+    ['a dozen eggs', 12, 'count', 'egg'],
+    ['two dozen eggs', 24, 'count', 'egg'],
+    ['one and a half cups', 354.882, 'volume', ''],
+    ['a couple of slices', 2, 'count', 'slice'],
+    ['a quarter of a pound', 113.398, 'mass', ''],
+    ['media taza', 118.294, 'volume', ''],
+    ['dos cucharadas', 29.5736, 'volume', ''],
+    ['eine halbe Tasse', 118.294, 'volume', ''],
+    ['zwei EL', 29.5736, 'volume', ''],
+    // Multipliers, as written for barcode servings
+    ['2 × 30 g', 60, 'mass', ''],
+    ['3 x 1 cup', 709.764, 'volume', ''],
+    ['1.5 × 2 slices', 3, 'count', 'slice'],
+    // Mass and volume units
+    ['150g', 150, 'mass', ''],
+    ['1 kg', 1000, 'mass', ''],
+    ['6 oz', 170.097, 'mass', ''],
+    ['2 lbs', 907.184, 'mass', ''],
+    ['250 ml', 250, 'volume', ''],
+    ['1 l', 1000, 'volume', ''],
+    ['2 dl', 200, 'volume', ''],
+    ['8 fl oz', 236.588, 'volume', ''],
+    ['8 fl. oz', 236.588, 'volume', ''],
+    ['1 pint', 473.176, 'volume', ''],
+    ['2 tsp.', 9.85784, 'volume', ''],
+  ])('reads %s', (text, amount, dimension, unit) => {
+    const parsed = parseQuantity(text);
+    expect(parsed).not.toBeNull();
+    expect(parsed!.amount).toBeCloseTo(amount, 3);
+    expect(parsed!.dimension).toBe(dimension);
+    expect(parsed!.unit).toBe(unit);
+  });
+
+  it.each([
+    ['cheeses', 'cheese'],
+    ['slices', 'slice'],
+    ['sauces', 'sauce'],
+    ['glasses', 'glass'],
+    ['boxes', 'box'],
+    ['peaches', 'peach'],
+    ['dishes', 'dish'],
+    ['potatoes', 'potato'],
+    ['berries', 'berry'],
+    ['cookies', 'cookie'],
+    ['pies', 'pie'],
+    ['scoops', 'scoop'],
+    ['glass', 'glass'],
+  ])('counts %s as %s', (plural, expected) => {
+    expect(parseQuantity(`2 ${plural}`)?.unit).toBe(expected);
+  });
+
+  it.each(['', 'some', '0 slices', 'constructor', '1/0 cup'])('rejects %j', (text) => {
+    expect(parseQuantity(text)).toBeNull();
+  });
+});
+
+describe('quantityGrams', () => {
+  it.each([
+    ['150g', 150],
+    ['6 oz', 170.097],
+    ['2 × 30 g', 60],
+    ['1 cup', null],
+    ['2 slices', null],
+  ])('%s is %s g', (text, grams) => {
+    if (grams === null) {
+      expect(quantityGrams(text)).toBeNull();
+    } else {
+      expect(quantityGrams(text)).toBeCloseTo(grams, 3);
+    }
+  });
+});
+
+describe('quantityRatio', () => {
+  it.each([
+    ['1 slice', '3 slices', 3],
+    ['1 cheese', '2 cheeses', 2],
+    ['1 cookie', '3 cookies', 3],
+    ['1 cup', '250 ml', 250 / 236.588],
+    ['100g', '1/4 lb', 113.398 / 100],
+    ['2', '3 slices', 1.5],
+    ['1 cup', '100g', null],
+    ['1 slice', '2 pieces', null],
+    ['some', '2 slices', null],
+  ])('%s to %s is %s', (from, to, ratio) => {
+    if (ratio === null) {
+      expect(quantityRatio(from, to)).toBeNull();
+    } else {
+      expect(quantityRatio(from, to)).toBeCloseTo(ratio, 3);
+    }
+  });
+});
+
+describe('rescaleItem', () => {
+  const toast = { qty: '2 slices', n: 'toast', cal: 160, p: 6, c: 30, f: 2, fib: 2.4, g: 60, k_mg: 90, fid: 'bread', conf: 0.9 };
+
+  it('scales nutrients and weight by a counted quantity', () => {
+    expect(rescaleItem(toast, '3 slices')).toEqual({ ...toast, qty: '3 slices', cal: 240, p: 9, c: 45, f: 3, fib: 3.6, g: 90, k_mg: 135 });
+  });
+
+  it('scales a counted item through its weight when given grams', () => {
+    expect(rescaleItem(toast, '90g')).toEqual({ ...toast, qty: '90g', cal: 240, p: 9, c: 45, f: 3, fib: 3.6, g: 90, k_mg: 135 });
+  });
+
+  it('keeps the numbers when the quantities cannot be compared', () => {
+    expect(rescaleItem(toast, 'a cup')).toEqual({ ...toast, qty: 'a cup' });
+    expect(rescaleItem({ ...toast, g: undefined }, '90g')).toEqual({ ...toast, g: undefined, qty: '90g' });
+  });
+});
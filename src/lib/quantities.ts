@@ -0,0 +1,176 @@
+import { KNOWN_KEYS, TokenItem } from '@/lib/meals';
+
+// Free-text quantities ("2 slices", "1 1/2 cups", "150g", "half a cup") read
+// as an amount in a unit, so editing one can rescale the item's numbers
+
+export type QuantityDimension = 'mass' | 'volume' | 'count';
+
+export interface ParsedQuantity {
+  amount: number; // grams for mass, millilitres for volume, otherwise a count
+  dimension: QuantityDimension;
+  unit: string; // count noun such as "slice"; '' for a bare number or mass/volume
+}
+
+// Factors to grams and millilitres (US customary volumes), with the Spanish
+// and German words the analyzer writes for users logging in those languages
+const MASS_UNITS: Record<string, number> = {
+  g: 1, gr: 1, gram: 1, grams: 1, gramme: 1, grammes: 1, gramo: 1, gramos: 1, gramm: 1,
+  kg: 1000, kilo: 1000, kilos: 1000, kilogram: 1000, kilograms: 1000, kilogramo: 1000, kilogramos: 1000, kilogramm: 1000,
+  oz: 28.3495, ounce: 28.3495, ounces: 28.3495,
+  lb: 453.592, lbs: 453.592, pound: 453.592, pounds: 453.592,
+};
+
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1, millilitre: 1, millilitres: 1, milliliter: 1, milliliters: 1,
+  cl: 10, dl: 100,
+  l: 1000, litre: 1000, litres: 1000, liter: 1000, liters: 1000, litro: 1000, litros: 1000,
+  tsp: 4.92892, teaspoon: 4.92892, teaspoons: 4.92892,
+  cucharadita: 4.92892, cucharaditas: 4.92892, teelöffel: 4.92892, tl: 4.92892,
+  tbsp: 14.7868, tbs: 14.7868, tablespoon: 14.7868, tablespoons: 14.7868,
+  cucharada: 14.7868, cucharadas: 14.7868, esslöffel: 14.7868, el: 14.7868,
+  cup: 236.588, cups: 236.588, taza: 236.588, tazas: 236.588, tasse: 236.588, tassen: 236.588,
+  floz: 29.5735,
+  pint: 473.176, pints: 473.176, pt: 473.176,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, dozen: 12,
+  half: 0.5, quarter: 0.25, couple: 2,
+  un: 1, una: 1, uno: 1, dos: 2, tres: 3, media: 0.5, medio: 0.5,
+  ein: 1, eine: 1, einen: 1, zwei: 2, drei: 3, halb: 0.5, halbe: 0.5, halben: 0.5,
+};
+
+const FRACTION_CHARS: Record<string, string> = {
+  '½': ' 1/2', '⅓': ' 1/3', '⅔': ' 2/3', '¼': ' 1/4', '¾': ' 3/4', '⅛': ' 1/8',
+};
+
+// Words between the amount and the unit that don't change it ("half OF a cup")
+const FILLER = new Set(['a', 'an', 'of', 'de']);
+
+// Leading amount: "3/4", "1 1/2", "2.5", "2-3" (midpoint), or a number word
+const AMOUNT_PATTERN = /^(\d+)\/(\d+)|^(\d+(?:[.,]\d+)?)(?:\s*-\s*(\d+(?:[.,]\d+)?))?(?:\s+(\d+)\/(\d+))?/;
+
+const toNumber = (text: string) => Number(text.replace(',', '.'));
+
+// Own keys only, so words like "constructor" don't hit Object.prototype
+const lookup = (table: Record<string, number>, word: string | undefined) =>
+  word && Object.prototype.hasOwnProperty.call(table, word) ? table[word] : undefined;
+
+// Counted things whose singular ends in -ie rather than -y
+const IE_NOUNS = new Set(['cookie', 'brownie', 'smoothie', 'veggie', 'pie']);
+
+// "es" is only a suffix after ss, x, zz, ch, sh and o ("glasses", "peaches",
+// "potatoes"); elsewhere the e belongs to the word ("cheeses", "slices")
+const singular = (word: string) => {
+  if (IE_NOUNS.has(word.slice(0, -1))) return word.slice(0, -1);
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(?:ss|x|zz|ch|sh|o)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+const readAmount = (text: string): [number, string] | null => {
+  const match = text.match(AMOUNT_PATTERN);
+  if (match) {
+    let amount: number;
+    if (match[1]) {
+      amount = Number(match[1]) / Number(match[2]);
+    } else if (match[4]) {
+      amount = (toNumber(match[3]) + toNumber(match[4])) / 2;
+    } else {
+      amount = toNumber(match[3]) + (match[5] ? Number(match[5]) / Number(match[6]) : 0);
+    }
+    return [amount, text.slice(match[0].length).trim()];
+  }
+
+  const [word, ...rest] = text.split(/\s+/);
+  const amount = lookup(NUMBER_WORDS, word);
+  return amount === undefined ? null : [amount, rest.join(' ')];
+};
+
+export const parseQuantity = (text: string): ParsedQuantity | null => {
+  let normalized = text.toLowerCase().trim();
+  for (const [char, replacement] of Object.entries(FRACTION_CHARS)) {
+    normalized = normalized.split(char).join(replacement);
+  }
+  normalized = normalized.replace(/fl\.?\s*oz\b/g, 'floz').trim();
+
+  const first = readAmount(normalized);
+  if (!first) return null;
+  const rest = first[1];
+  let amount = first[0];
+
+  // "2 × 30 g", as written for barcode servings
+  const multiplied = rest.match(/^[x×*]\s*(.+)$/);
+  if (multiplied) {
+    const inner = parseQuantity(multiplied[1]);
+    return inner && { ...inner, amount: amount * inner.amount };
+  }
+
+  // "half a cup", "a dozen eggs", "one and a half cups"
+  let words = rest.split(/[\s()]+/).filter(Boolean);
+  if (words[0] === 'and' && (words[1] === 'half' || words[2] === 'half')) {
+    amount += 0.5;
+    words = words.slice(words[1] === 'half' ? 2 : 3);
+  }
+  while (words.length && FILLER.has(words[0])) words = words.slice(1);
+  // Stacked words multiply: "two dozen", "eine halbe Tasse"
+  for (let multiplier = lookup(NUMBER_WORDS, words[0]); multiplier !== undefined; multiplier = lookup(NUMBER_WORDS, words[0])) {
+    amount *= multiplier;
+    words = words.slice(1);
+    while (words.length && FILLER.has(words[0])) words = words.slice(1);
+  }
+  if (!(amount > 0) || !Number.isFinite(amount)) return null;
+
+  const unit = (words[0] || '').replace(/\.$/, '');
+  const toGrams = lookup(MASS_UNITS, unit);
+  if (toGrams !== undefined) return { amount: amount * toGrams, dimension: 'mass', unit: '' };
+  const toMillilitres = lookup(VOLUME_UNITS, unit);
+  if (toMillilitres !== undefined) return { amount: amount * toMillilitres, dimension: 'volume', unit: '' };
+  return { amount, dimension: 'count', unit: singular(unit) };
+};
+
+// Weight in grams of a quantity given by mass, e.g. "150g" or "6 oz"
+export const quantityGrams = (text: string) => {
+  const parsed = parseQuantity(text);
+  return parsed?.dimension === 'mass' ? parsed.amount : null;
+};
+
+// How many times `from` fits in `to`, or null when they can't be compared
+// ("1 cup" vs "100g"). A bare number stands in for any counted unit.
+export const quantityRatio = (from: string, to: string) => {
+  const a = parseQuantity(from);
+  const b = parseQuantity(to);
+  if (!a || !b || a.dimension !== b.dimension) return null;
+  if (a.dimension === 'count' && a.unit && b.unit && a.unit !== b.unit) return null;
+  return b.amount / a.amount;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Multiply every nutrient (and the weight) on an item
+export const scaleItem = (item: TokenItem, factor: number): TokenItem => {
+  const scaled: TokenItem = { ...item };
+  for (const [key, value] of Object.entries(item)) {
+    if (typeof value !== 'number') continue;
+    if (!KNOWN_KEYS.has(key) || ['cal', 'p', 'c', 'f', 'fib', 'g'].includes(key)) {
+      scaled[key] = round1(value * factor);
+    }
+  }
+  return scaled;
+};
+
+// The item as it would be at `qty`, scaled from `baseline` (the item at the
+// quantity its numbers were computed for). A weight typed for something
+// counted ("2 slices" to "90g") scales through the item's known grams.
+// Quantities that can't be compared leave the baseline numbers untouched.
+export const rescaleItem = (baseline: TokenItem, qty: string): TokenItem => {
+  const grams = quantityGrams(qty);
+  const ratio = quantityRatio(baseline.qty, qty) ?? (grams && baseline.g ? grams / baseline.g : null);
+  if (ratio == null || ratio === 1) return { ...baseline, qty };
+
+  const scaled = { ...scaleItem(baseline, ratio), qty };
+  if (grams) scaled.g = round1(grams);
+  return scaled;
+};
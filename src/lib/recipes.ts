@@ -0,0 +1,55 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { TokenItem, readMicronutrients } from '@/lib/meals';
+import { readSavedItems } from '@/lib/savedFoods';
+import {
+  RecipeMatch,
+  RecipeYield,
+  ServingNutrition,
+  WEIGHT_SERVING_G,
+  findRecipe,
+  scaleRecipe,
+  servingCount,
+  servingNutrition,
+} from '../../supabase/functions/_shared/recipes.ts';
+
+export { WEIGHT_SERVING_G, findRecipe, scaleRecipe, servingCount, servingNutrition };
+export type { RecipeMatch, RecipeYield, ServingNutrition };
+
+export type Recipe = Tables<'recipes'>;
+
+// A recipe as the user composes it, before the per-serving figures are worked out
+export interface RecipeDraft {
+  name: string;
+  ingredients: TokenItem[];
+  servings: number | null;
+  total_grams: number | null;
+}
+
+export const recipeIngredients = (recipe: Recipe): TokenItem[] => readSavedItems(recipe.ingredients);
+
+export const toRecipeMatch = (recipe: Recipe): RecipeMatch => ({
+  ...recipe,
+  micronutrients: readMicronutrients(recipe.micronutrients),
+});
+
+// "4 servings", "1.2 kg", or both
+export const describeYield = ({ servings, total_grams }: RecipeYield) => {
+  const parts: string[] = [];
+  if (servings) parts.push(`${servings} ${servings === 1 ? 'serving' : 'servings'}`);
+  if (total_grams) parts.push(total_grams >= 1000 ? `${Math.round(total_grams / 100) / 10} kg` : `${Math.round(total_grams)} g`);
+  return parts.join(', ');
+};
+
+// Quantity text for a portion: servings for recipes made in servings, grams otherwise
+export const portionLabel = (recipe: Pick<Recipe, 'servings' | 'serving_g'>, servings: number) => {
+  if (recipe.servings == null) return `${Math.round(servings * (Number(recipe.serving_g) || WEIGHT_SERVING_G))} g`;
+  return `${servings} ${servings === 1 ? 'serving' : 'servings'}`;
+};
+
+// A portion of the recipe as a loggable item, as the analyzer would match it
+export const recipeItem = (recipe: Recipe, servings = 1): TokenItem => ({
+  qty: portionLabel(recipe, servings),
+  n: recipe.name,
+  rid: recipe.id,
+  ...scaleRecipe(toRecipeMatch(recipe), servings),
+});
@@ -0,0 +1,57 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { MealItem, TokenItem, fromMealItemRows } from '@/lib/meals';
+
+export type SavedFood = Tables<'saved_foods'>;
+
+// How often an item must turn up in recent history to be suggested
+export const SUGGESTION_MIN_COUNT = 3;
+export const SUGGESTION_LOOKBACK_DAYS = 60;
+export const MAX_SUGGESTIONS = 6;
+
+export const readSavedItems = (value: Json): TokenItem[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is TokenItem =>
+        !!item && typeof item === 'object' && !Array.isArray(item) && typeof item.n === 'string' && typeof item.qty === 'string')
+    : [];
+
+export const favouriteName = (items: TokenItem[]) =>
+  items.length === 1 ? items[0].n : items.map(item => item.n).join(', ');
+
+// Order-insensitive identity of a food or meal: "1 cup oatmeal" twice is the same favourite
+const itemKey = (item: Pick<TokenItem, 'qty' | 'n'>) => `${item.qty} ${item.n}`.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const itemsSignature = (items: Pick<TokenItem, 'qty' | 'n'>[]) => items.map(itemKey).sort().join('|');
+
+export const findDuplicateFavourite = (favourites: SavedFood[], items: TokenItem[]) => {
+  const signature = itemsSignature(items);
+  return favourites.find(favourite => itemsSignature(readSavedItems(favourite.items)) === signature);
+};
+
+export interface FoodSuggestion {
+  item: TokenItem;
+  count: number;
+}
+
+// Items the user keeps logging but hasn't saved, most frequent first.
+// Uses the most recent row's numbers as the template.
+export const suggestFrequentItems = (rows: MealItem[], favourites: SavedFood[]): FoodSuggestion[] => {
+  const saved = new Set(favourites.map(favourite => itemsSignature(readSavedItems(favourite.items))));
+  const byKey = new Map<string, { latest: MealItem; count: number }>();
+
+  for (const row of rows) {
+    const key = itemKey({ qty: row.qty, n: row.name });
+    const entry = byKey.get(key);
+    if (!entry) {
+      byKey.set(key, { latest: row, count: 1 });
+    } else {
+      entry.count += 1;
+      if (row.created_at > entry.latest.created_at) entry.latest = row;
+    }
+  }
+
+  return Array.from(byKey.entries())
+    .filter(([key, { count }]) => count >= SUGGESTION_MIN_COUNT && !saved.has(key))
+    .sort((a, b) => b[1].count - a[1].count)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([, { latest, count }]) => ({ item: fromMealItemRows([latest])[0], count }));
+};
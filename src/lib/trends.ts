@@ -0,0 +1,91 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { GoalKey, NutritionTotals } from '@/lib/goals';
+import { fromDateString, shiftDateString } from '@/lib/dates';
+
+// One logged day, as summed by the daily_nutrition view
+export interface DaySummary extends NutritionTotals {
+  date: string;
+  mealCount: number;
+}
+
+export const toDaySummary = (row: Tables<'daily_nutrition'>): DaySummary => ({
+  date: row.logged_date ?? '',
+  calories: Number(row.calories) || 0,
+  protein: Number(row.protein) || 0,
+  carbs: Number(row.carbs) || 0,
+  fat: Number(row.fat) || 0,
+  fiber: Number(row.fiber) || 0,
+  mealCount: row.meal_count ?? 0,
+});
+
+export const TREND_RANGES = [7, 30, 90, 365] as const;
+
+export type TrendRange = typeof TREND_RANGES[number];
+
+export const ROLLING_WINDOW = 7;
+
+export interface TrendPoint {
+  date: string;
+  value: number | null; // null on days nothing was logged
+  average: number | null;
+}
+
+// Every day from `from` to `to` inclusive, with a trailing rolling average.
+// Unlogged days are gaps rather than zeros: forgetting to log isn't fasting.
+export const buildTrendSeries = (summaries: DaySummary[], key: GoalKey, from: string, to: string): TrendPoint[] => {
+  const byDate = new Map(summaries.map(summary => [summary.date, summary]));
+  const points: TrendPoint[] = [];
+
+  for (let date = from; date <= to; date = shiftDateString(date, 1)) {
+    const summary = byDate.get(date);
+    const value = summary ? Math.round(summary[key]) : null;
+
+    const windowValues: number[] = [];
+    for (let back = 0; back < ROLLING_WINDOW; back++) {
+      const earlier = byDate.get(shiftDateString(date, -back));
+      if (earlier) windowValues.push(earlier[key]);
+    }
+    const average = windowValues.length
+      ? Math.round(windowValues.reduce((sum, v) => sum + v, 0) / windowValues.length)
+      : null;
+
+    points.push({ date, value, average });
+  }
+  return points;
+};
+
+export const averageTotals = (summaries: DaySummary[]): NutritionTotals | null => {
+  if (!summaries.length) return null;
+  const sum = (key: GoalKey) => summaries.reduce((acc, summary) => acc + summary[key], 0) / summaries.length;
+  return {
+    calories: sum('calories'),
+    protein: sum('protein'),
+    carbs: sum('carbs'),
+    fat: sum('fat'),
+    fiber: sum('fiber'),
+  };
+};
+
+export const isWeekend = (date: string) => {
+  const day = fromDateString(date).getDay();
+  return day === 0 || day === 6;
+};
+
+export const compareWeekdayWeekend = (summaries: DaySummary[]) => {
+  const weekend = summaries.filter(summary => isWeekend(summary.date));
+  const weekday = summaries.filter(summary => !isWeekend(summary.date));
+  return {
+    weekday: { days: weekday.length, averages: averageTotals(weekday) },
+    weekend: { days: weekend.length, averages: averageTotals(weekend) },
+  };
+};
+
+// With a calorie goal, best/worst are the days closest to and furthest from it;
+// without one, simply the lightest and heaviest days.
+export const rankDays = (summaries: DaySummary[], calorieGoal: number | null) => {
+  if (!summaries.length) return null;
+  const score = (summary: DaySummary) =>
+    calorieGoal != null ? Math.abs(summary.calories - calorieGoal) : summary.calories;
+  const sorted = [...summaries].sort((a, b) => score(a) - score(b));
+  return { best: sorted[0], worst: sorted[sorted.length - 1] };
+};
@@ -0,0 +1,13 @@
+import { NutritionWarning, checkItems, macroCalories } from '../../supabase/functions/_shared/validation.ts';
+
+export { checkItems, macroCalories };
+export type { NutritionWarning };
+
+// Warning messages per item index and field, for highlighting inputs
+export const warningsByItem = (warnings: NutritionWarning[]) => {
+  const byItem: Record<number, Record<string, string>> = {};
+  for (const { item, field, message } of warnings) {
+    byItem[item] = { ...byItem[item], [field]: byItem[item]?.[field] ?? message };
+  }
+  return byItem;
+};
@@ -0,0 +1,131 @@
+import type { Messages } from './en';
+
+const de: Messages = {
+  'mealType.breakfast': 'Frühstück',
+  'mealType.lunch': 'Mittagessen',
+  'mealType.dinner': 'Abendessen',
+  'mealType.snack': 'Zwischenmahlzeit',
+  'item.defaultQty': '1 Portion',
+  'toast.analysisError': 'Analysefehler',
+  'toast.recordingError': 'Aufnahmefehler',
+  'toast.processingError': 'Verarbeitungsfehler',
+  'toast.savedForLater': 'Für später gespeichert',
+
+  'dashboard.greeting.morning': 'Guten Morgen, {name}',
+  'dashboard.greeting.afternoon': 'Guten Tag, {name}',
+  'dashboard.greeting.evening': 'Guten Abend, {name}',
+  'dashboard.guest': 'werter Gast',
+  'dashboard.loading': 'Ihr Journal wird vorbereitet...',
+  'dashboard.nav.ledger': 'Das Journal',
+  'dashboard.nav.trends': 'Verlauf',
+  'dashboard.nav.recipes': 'Rezepte',
+  'dashboard.nav.preferences': 'Einstellungen',
+  'dashboard.nav.signOut': 'Abmelden',
+  'dashboard.summary.title': 'Heutige Nährwertübersicht',
+  'dashboard.summary.consumed': '{calories} Kalorien, präzise verbucht',
+  'dashboard.summary.empty': 'Ihr Journal erwartet den ersten Eintrag des Tages',
+  'dashboard.summary.noMeals': 'Heute noch keine Mahlzeiten erfasst',
+  'dashboard.macro.protein': 'Eiweiß',
+  'dashboard.macro.carbs': 'Kohlenhydrate',
+  'dashboard.macro.fat': 'Fett',
+  'dashboard.record.title': 'Mahlzeit erfassen',
+  'dashboard.record.description': 'Bitte schildern Sie Ihr kulinarisches Erlebnis',
+  'dashboard.record.start': 'Bereit zur Aufnahme',
+  'dashboard.record.scan': 'Barcode scannen',
+  'dashboard.record.or': 'Oder, wenn Sie möchten',
+  'dashboard.record.placeholder': 'Eine schriftliche Notiz, wenn Sie möchten...',
+  'dashboard.entries': 'Heutige Einträge',
+  'dashboard.toast.amended.title': 'Eintrag berichtigt',
+  'dashboard.toast.amended.description': 'Ihre Korrektur wurde ordnungsgemäß im Journal vermerkt.',
+  'dashboard.toast.recorded.title': 'Mahlzeit mit Auszeichnung verbucht',
+  'dashboard.toast.recorded.description': 'Ihr Eintrag wurde sorgfältig festgehalten.',
+  'dashboard.toast.queued.description': 'Ich analysiere Ihre Notiz, sobald die Verbindung zurück ist.',
+  'dashboard.toast.analysisError.description': 'Ich konnte die Nährwerte nicht schätzen; bitte ergänzen Sie die Angaben selbst.',
+
+  'recording.title': 'Ganz nach Belieben',
+  'recording.voice.description': 'Beschreiben Sie Ihre Mahlzeit, und ich schreibe sie mit größter Sorgfalt mit.',
+  'recording.photo.description': 'Ein Foto Ihres Tellers und, wenn Sie mögen, ein paar Worte dazu.',
+  'recording.tab.voice': 'Sprache',
+  'recording.tab.photo': 'Foto',
+  'recording.processing.photo': 'Ihr Foto wird begutachtet...',
+  'recording.processing.analysing': 'Ihre Angaben werden analysiert...',
+  'recording.processing.transcribing': 'Ihre Angaben werden verarbeitet...',
+  'recording.photo.change': 'Anderes Foto wählen',
+  'recording.photo.alt': 'Ihre Mahlzeit',
+  'recording.photo.choose': 'Foto aufnehmen oder auswählen',
+  'recording.photo.notePlaceholder': 'Etwas, das auf dem Bild nicht zu sehen ist? (optional)',
+  'recording.photo.finishNote': 'Notiz beenden',
+  'recording.photo.rerecordNote': 'Notiz neu aufnehmen',
+  'recording.photo.addNote': 'Sprachnotiz hinzufügen',
+  'recording.photo.listening': 'Ich höre zu...',
+  'recording.photo.noteAttached': 'Sprachnotiz angehängt',
+  'recording.photo.examine': 'Foto begutachten',
+  'recording.voice.recording': 'Aufnahme läuft...',
+  'recording.voice.tapToStart': 'Tippen, um die Aufnahme zu starten',
+  'recording.voice.tapToFinish': 'Zum Beenden auf das Quadrat tippen',
+  'recording.voice.hint': 'Sprechen Sie deutlich und natürlich',
+  'recording.cancel': 'Vielleicht ein andermal',
+  'recording.toast.micError': 'Kein Zugriff auf das Mikrofon. Bitte prüfen Sie die Berechtigungen.',
+  'recording.toast.queued': 'Die Küche war gerade nicht erreichbar. Ich analysiere Ihre Aufnahme, sobald die Verbindung zurück ist.',
+  'recording.toast.processError': 'Ihre Aufnahme konnte nicht verarbeitet werden. Bitte versuchen Sie es erneut.',
+  'recording.toast.photoError.title': 'Fotofehler',
+  'recording.toast.photoError.description': 'Dieses Bild konnte ich nicht lesen. Bitte versuchen Sie ein anderes.',
+  'recording.toast.photoProcessError': 'Ihr Foto konnte nicht begutachtet werden. Bitte versuchen Sie es erneut.',
+
+  'confirm.title': 'Wenn ich kurz bestätigen darf',
+  'confirm.description': 'Prüfen Sie Ihre Lebensmittel. Passen Sie Mengen, Namen oder Makros an, bevor ich sie verbuche.',
+  'confirm.transcript.label': 'Was Sie sagten:',
+  'confirm.transcript.placeholder': 'Korrigieren Sie, was ich missverstanden habe, und analysieren Sie erneut',
+  'confirm.reanalyse': 'Text erneut analysieren',
+  'confirm.reanalysing': 'Wird erneut analysiert...',
+  'confirm.when': 'Wann:',
+  'confirm.pickDate': 'Datum wählen',
+  'confirm.timeEaten': 'Uhrzeit der Mahlzeit',
+  'confirm.mealType': 'Art der Mahlzeit',
+  'confirm.items': 'Lebensmittel:',
+  'confirm.corrections': 'Ich habe mir erlaubt, einiges zu berichtigen:',
+  'confirm.questions.ask': 'Wenn ich fragen darf:',
+  'confirm.questions.guessed': 'Bei {items} musste ich raten. Könnten Sie mir mehr verraten?',
+  'confirm.questions.anItem': 'einem Lebensmittel',
+  'confirm.questions.placeholder': 'z. B. Etwa eine Tasse Spaghetti mit Tomatensoße',
+  'confirm.questions.answerLabel': 'Ihre Antwort',
+  'confirm.questions.finishVoice': 'Gesprochene Antwort beenden',
+  'confirm.questions.voice': 'Per Sprache antworten',
+  'confirm.questions.reconsidering': 'Wird neu bedacht...',
+  'confirm.questions.listeningBack': 'Wird abgehört...',
+  'confirm.questions.answer': 'Antworten',
+  'confirm.item.dbMatch': 'Treffer in der Datenbank',
+  'confirm.item.estimate': 'Schätzung',
+  'confirm.item.recipe': 'Ihr Rezept',
+  'confirm.item.unsure': 'Unsicher',
+  'confirm.item.swap': 'Lebensmittel tauschen',
+  'confirm.item.lookUp': 'Nachschlagen',
+  'confirm.item.quantity': 'Menge',
+  'confirm.item.quantityPlaceholder': 'z. B. 2 Scheiben, 150 g',
+  'confirm.item.name': 'Lebensmittel',
+  'confirm.item.namePlaceholder': 'z. B. Vollkorntoast',
+  'confirm.item.calories': 'Kcal',
+  'confirm.item.protein': 'E (g)',
+  'confirm.item.carbs': 'KH (g)',
+  'confirm.item.fat': 'F (g)',
+  'confirm.item.weight': 'Gewicht (g)',
+  'confirm.item.fiber': 'Bst. (g)',
+  'confirm.item.remove': '× Entfernen',
+  'confirm.addItem': 'Weiteres Lebensmittel',
+  'confirm.saveFavourite': 'Als Favorit speichern',
+  'confirm.saveRecipe': 'Als Rezept speichern',
+  'confirm.doubtful.one': 'Ein Wert wirkt zweifelhaft; bitte prüfen Sie ihn, bevor ich verbuche.',
+  'confirm.doubtful.other': '{count} Werte wirken zweifelhaft; bitte prüfen Sie sie, bevor ich verbuche.',
+  'confirm.cancel': 'Ich überlege es mir noch',
+  'confirm.saving': 'Wird gespeichert...',
+  'confirm.saveChanges': 'Änderungen speichern',
+  'confirm.record': 'Bestätigen & verbuchen',
+  'confirm.toast.reanalyseError': 'Ihre Angaben konnten nicht erneut geprüft werden. Bitte versuchen Sie es erneut.',
+  'confirm.toast.answerRecordError': 'Das habe ich nicht verstanden. Möchten Sie Ihre Antwort lieber tippen?',
+  'confirm.toast.clarifyError': 'Ihre Antwort konnte nicht berücksichtigt werden. Bitte versuchen Sie es erneut.',
+  'confirm.toast.missing.title': 'Angaben fehlen',
+  'confirm.toast.missing.description': 'Bitte geben Sie für jedes Lebensmittel Menge und Namen an.',
+  'confirm.toast.saveError': 'Ihre Mahlzeit konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.',
+};
+
+export default de;
@@ -0,0 +1,135 @@
+// Source catalog: every key the UI uses, in English. The other languages
+// must translate all of them (see Messages). {name} marks a placeholder.
+const en = {
+  'mealType.breakfast': 'Breakfast',
+  'mealType.lunch': 'Lunch',
+  'mealType.dinner': 'Dinner',
+  'mealType.snack': 'Snack',
+  'item.defaultQty': '1 serving',
+  'toast.analysisError': 'Analysis Error',
+  'toast.recordingError': 'Recording Error',
+  'toast.processingError': 'Processing Error',
+  'toast.savedForLater': 'Saved for later',
+
+  'dashboard.greeting.morning': 'Good morning, {name}',
+  'dashboard.greeting.afternoon': 'Good afternoon, {name}',
+  'dashboard.greeting.evening': 'Good evening, {name}',
+  'dashboard.guest': 'esteemed guest',
+  'dashboard.loading': 'Preparing your ledger...',
+  'dashboard.nav.ledger': 'The Ledger',
+  'dashboard.nav.trends': 'Trends',
+  'dashboard.nav.recipes': 'Recipes',
+  'dashboard.nav.preferences': 'Preferences',
+  'dashboard.nav.signOut': 'Sign Out',
+  'dashboard.summary.title': "Today's Nutritional Summary",
+  'dashboard.summary.consumed': '{calories} calories consumed with precision',
+  'dashboard.summary.empty': 'Your ledger awaits the first entry of the day',
+  'dashboard.summary.noMeals': 'No meals recorded yet today',
+  'dashboard.macro.protein': 'Protein',
+  'dashboard.macro.carbs': 'Carbs',
+  'dashboard.macro.fat': 'Fat',
+  'dashboard.record.title': 'Record Your Meal',
+  'dashboard.record.description': 'Please describe your culinary experience',
+  'dashboard.record.start': 'Ready to Record',
+  'dashboard.record.scan': 'Scan a Barcode',
+  'dashboard.record.or': 'Or, if you prefer',
+  'dashboard.record.placeholder': 'A written note, if you prefer...',
+  'dashboard.entries': "Today's Entries",
+  'dashboard.toast.amended.title': 'Entry amended',
+  'dashboard.toast.amended.description': 'Your correction has been duly noted in the ledger.',
+  'dashboard.toast.recorded.title': 'Meal recorded with distinction',
+  'dashboard.toast.recorded.description': 'Your nutritional entry has been meticulously logged.',
+  'dashboard.toast.queued.description': 'I shall analyse your note once the connection returns.',
+  'dashboard.toast.analysisError.description': 'I could not estimate the nutrition; please fill in the details yourself.',
+
+  'recording.title': 'At Your Leisure',
+  'recording.voice.description': 'Please describe your meal, and I shall transcribe it with utmost care.',
+  'recording.photo.description': 'A photograph of your plate, and a word or two if you wish.',
+  'recording.tab.voice': 'Voice',
+  'recording.tab.photo': 'Photo',
+  'recording.processing.photo': 'Examining your photograph...',
+  'recording.processing.analysing': 'Analysing your statement...',
+  'recording.processing.transcribing': 'Processing your statement...',
+  'recording.photo.change': 'Choose another photo',
+  'recording.photo.alt': 'Your meal',
+  'recording.photo.choose': 'Take or choose a photo',
+  'recording.photo.notePlaceholder': "Anything the picture doesn't show? (optional)",
+  'recording.photo.finishNote': 'Finish note',
+  'recording.photo.rerecordNote': 'Re-record note',
+  'recording.photo.addNote': 'Add a spoken note',
+  'recording.photo.listening': 'Listening...',
+  'recording.photo.noteAttached': 'Spoken note attached',
+  'recording.photo.examine': 'Examine Photo',
+  'recording.voice.recording': 'Recording in progress...',
+  'recording.voice.tapToStart': 'Tap to begin recording',
+  'recording.voice.tapToFinish': 'Tap the square to finish',
+  'recording.voice.hint': 'Speak clearly and naturally',
+  'recording.cancel': 'Perhaps another time',
+  'recording.toast.micError': 'Unable to access microphone. Please check your permissions.',
+  'recording.toast.queued': 'I could not reach the kitchen just now. I shall analyse your recording once the connection returns.',
+  'recording.toast.processError': 'Unable to process your recording. Please try again.',
+  'recording.toast.photoError.title': 'Photo Error',
+  'recording.toast.photoError.description': 'I could not read that image. Please try another.',
+  'recording.toast.photoProcessError': 'Unable to examine your photograph. Please try again.',
+
+  'confirm.title': 'If I May Confirm',
+  'confirm.description': 'Review your items. Adjust quantities, names, or macros before I record them.',
+  'confirm.transcript.label': 'What you said:',
+  'confirm.transcript.placeholder': 'Correct anything I misheard, then re-analyse',
+  'confirm.reanalyse': 'Re-analyse from text',
+  'confirm.reanalysing': 'Re-analysing...',
+  'confirm.when': 'When:',
+  'confirm.pickDate': 'Pick a date',
+  'confirm.timeEaten': 'Time eaten',
+  'confirm.mealType': 'Meal type',
+  'confirm.items': 'Items:',
+  'confirm.corrections': 'I took the liberty of a few corrections:',
+  'confirm.questions.ask': 'If I may ask:',
+  'confirm.questions.guessed': 'I had to guess at {items}. Could you tell me more?',
+  'confirm.questions.anItem': 'an item',
+  'confirm.questions.placeholder': 'e.g., About a cup of spaghetti with tomato sauce',
+  'confirm.questions.answerLabel': 'Your answer',
+  'confirm.questions.finishVoice': 'Finish spoken answer',
+  'confirm.questions.voice': 'Answer by voice',
+  'confirm.questions.reconsidering': 'Reconsidering...',
+  'confirm.questions.listeningBack': 'Listening back...',
+  'confirm.questions.answer': 'Answer',
+  'confirm.item.dbMatch': 'Database match',
+  'confirm.item.estimate': 'Estimate',
+  'confirm.item.recipe': 'Your recipe',
+  'confirm.item.unsure': 'Unsure',
+  'confirm.item.swap': 'Swap food',
+  'confirm.item.lookUp': 'Look up',
+  'confirm.item.quantity': 'Quantity',
+  'confirm.item.quantityPlaceholder': 'e.g., 2 slices, 150g',
+  'confirm.item.name': 'Food Item',
+  'confirm.item.namePlaceholder': 'e.g., Whole grain toast',
+  'confirm.item.calories': 'Cal',
+  'confirm.item.protein': 'P (g)',
+  'confirm.item.carbs': 'C (g)',
+  'confirm.item.fat': 'F (g)',
+  'confirm.item.weight': 'Weight (g)',
+  'confirm.item.fiber': 'Fib (g)',
+  'confirm.item.remove': '× Remove',
+  'confirm.addItem': 'Add Another Item',
+  'confirm.saveFavourite': 'Save as favourite',
+  'confirm.saveRecipe': 'Save as recipe',
+  'confirm.doubtful.one': 'One figure looks doubtful; do check before I record them.',
+  'confirm.doubtful.other': '{count} figures look doubtful; do check before I record them.',
+  'confirm.cancel': 'Allow me to reconsider',
+  'confirm.saving': 'Saving...',
+  'confirm.saveChanges': 'Save Changes',
+  'confirm.record': 'Confirm & Record',
+  'confirm.toast.reanalyseError': 'Unable to re-examine your statement. Please try again.',
+  'confirm.toast.answerRecordError': 'I could not catch that. Perhaps type your answer instead?',
+  'confirm.toast.clarifyError': 'Unable to take your answer into account. Please try again.',
+  'confirm.toast.missing.title': 'Missing details',
+  'confirm.toast.missing.description': 'Please fill in quantity and name for each item.',
+  'confirm.toast.saveError': 'Unable to save your meal. Please try again.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
+
+export default en;
@@ -0,0 +1,131 @@
+import type { Messages } from './en';
+
+const es: Messages = {
+  'mealType.breakfast': 'Desayuno',
+  'mealType.lunch': 'Almuerzo',
+  'mealType.dinner': 'Cena',
+  'mealType.snack': 'Tentempié',
+  'item.defaultQty': '1 ración',
+  'toast.analysisError': 'Error de análisis',
+  'toast.recordingError': 'Error de grabación',
+  'toast.processingError': 'Error de procesamiento',
+  'toast.savedForLater': 'Guardado para más tarde',
+
+  'dashboard.greeting.morning': 'Buenos días, {name}',
+  'dashboard.greeting.afternoon': 'Buenas tardes, {name}',
+  'dashboard.greeting.evening': 'Buenas noches, {name}',
+  'dashboard.guest': 'estimado invitado',
+  'dashboard.loading': 'Preparando su registro...',
+  'dashboard.nav.ledger': 'El Registro',
+  'dashboard.nav.trends': 'Tendencias',
+  'dashboard.nav.recipes': 'Recetas',
+  'dashboard.nav.preferences': 'Preferencias',
+  'dashboard.nav.signOut': 'Cerrar sesión',
+  'dashboard.summary.title': 'Resumen nutricional de hoy',
+  'dashboard.summary.consumed': '{calories} calorías consumidas con precisión',
+  'dashboard.summary.empty': 'Su registro aguarda la primera entrada del día',
+  'dashboard.summary.noMeals': 'Aún no hay comidas registradas hoy',
+  'dashboard.macro.protein': 'Proteínas',
+  'dashboard.macro.carbs': 'Carbohidratos',
+  'dashboard.macro.fat': 'Grasas',
+  'dashboard.record.title': 'Registre su comida',
+  'dashboard.record.description': 'Le ruego que describa su experiencia culinaria',
+  'dashboard.record.start': 'Listo para grabar',
+  'dashboard.record.scan': 'Escanear un código de barras',
+  'dashboard.record.or': 'O, si lo prefiere',
+  'dashboard.record.placeholder': 'Una nota escrita, si lo prefiere...',
+  'dashboard.entries': 'Entradas de hoy',
+  'dashboard.toast.amended.title': 'Entrada corregida',
+  'dashboard.toast.amended.description': 'Su corrección ha quedado debidamente anotada en el registro.',
+  'dashboard.toast.recorded.title': 'Comida registrada con distinción',
+  'dashboard.toast.recorded.description': 'Su entrada nutricional ha sido anotada con esmero.',
+  'dashboard.toast.queued.description': 'Analizaré su nota en cuanto vuelva la conexión.',
+  'dashboard.toast.analysisError.description': 'No he podido estimar los nutrientes; le ruego que complete los detalles usted mismo.',
+
+  'recording.title': 'Cuando guste',
+  'recording.voice.description': 'Describa su comida y la transcribiré con el mayor esmero.',
+  'recording.photo.description': 'Una fotografía de su plato y, si lo desea, unas palabras.',
+  'recording.tab.voice': 'Voz',
+  'recording.tab.photo': 'Foto',
+  'recording.processing.photo': 'Examinando su fotografía...',
+  'recording.processing.analysing': 'Analizando su descripción...',
+  'recording.processing.transcribing': 'Procesando su descripción...',
+  'recording.photo.change': 'Elegir otra foto',
+  'recording.photo.alt': 'Su comida',
+  'recording.photo.choose': 'Tomar o elegir una foto',
+  'recording.photo.notePlaceholder': '¿Algo que no se vea en la foto? (opcional)',
+  'recording.photo.finishNote': 'Terminar nota',
+  'recording.photo.rerecordNote': 'Volver a grabar',
+  'recording.photo.addNote': 'Añadir una nota de voz',
+  'recording.photo.listening': 'Escuchando...',
+  'recording.photo.noteAttached': 'Nota de voz adjunta',
+  'recording.photo.examine': 'Examinar foto',
+  'recording.voice.recording': 'Grabando...',
+  'recording.voice.tapToStart': 'Toque para empezar a grabar',
+  'recording.voice.tapToFinish': 'Toque el cuadrado para terminar',
+  'recording.voice.hint': 'Hable con claridad y naturalidad',
+  'recording.cancel': 'Quizá en otro momento',
+  'recording.toast.micError': 'No se puede acceder al micrófono. Compruebe los permisos.',
+  'recording.toast.queued': 'No he podido llegar a la cocina. Analizaré su grabación en cuanto vuelva la conexión.',
+  'recording.toast.processError': 'No se ha podido procesar su grabación. Inténtelo de nuevo.',
+  'recording.toast.photoError.title': 'Error de foto',
+  'recording.toast.photoError.description': 'No he podido leer esa imagen. Pruebe con otra.',
+  'recording.toast.photoProcessError': 'No se ha podido examinar su fotografía. Inténtelo de nuevo.',
+
+  'confirm.title': 'Permítame confirmar',
+  'confirm.description': 'Revise sus alimentos. Ajuste cantidades, nombres o macros antes de que los anote.',
+  'confirm.transcript.label': 'Lo que dijo:',
+  'confirm.transcript.placeholder': 'Corrija lo que haya entendido mal y vuelva a analizar',
+  'confirm.reanalyse': 'Volver a analizar el texto',
+  'confirm.reanalysing': 'Analizando de nuevo...',
+  'confirm.when': 'Cuándo:',
+  'confirm.pickDate': 'Elija una fecha',
+  'confirm.timeEaten': 'Hora de la comida',
+  'confirm.mealType': 'Tipo de comida',
+  'confirm.items': 'Alimentos:',
+  'confirm.corrections': 'Me he tomado la libertad de hacer algunas correcciones:',
+  'confirm.questions.ask': 'Si me permite preguntar:',
+  'confirm.questions.guessed': 'He tenido que suponer {items}. ¿Podría contarme algo más?',
+  'confirm.questions.anItem': 'un alimento',
+  'confirm.questions.placeholder': 'p. ej., Una taza de espaguetis con salsa de tomate',
+  'confirm.questions.answerLabel': 'Su respuesta',
+  'confirm.questions.finishVoice': 'Terminar la respuesta hablada',
+  'confirm.questions.voice': 'Responder por voz',
+  'confirm.questions.reconsidering': 'Reconsiderando...',
+  'confirm.questions.listeningBack': 'Escuchando...',
+  'confirm.questions.answer': 'Responder',
+  'confirm.item.dbMatch': 'Coincidencia en la base de datos',
+  'confirm.item.estimate': 'Estimación',
+  'confirm.item.recipe': 'Su receta',
+  'confirm.item.unsure': 'Dudoso',
+  'confirm.item.swap': 'Cambiar alimento',
+  'confirm.item.lookUp': 'Buscar',
+  'confirm.item.quantity': 'Cantidad',
+  'confirm.item.quantityPlaceholder': 'p. ej., 2 rebanadas, 150 g',
+  'confirm.item.name': 'Alimento',
+  'confirm.item.namePlaceholder': 'p. ej., Pan integral tostado',
+  'confirm.item.calories': 'Kcal',
+  'confirm.item.protein': 'P (g)',
+  'confirm.item.carbs': 'HC (g)',
+  'confirm.item.fat': 'G (g)',
+  'confirm.item.weight': 'Peso (g)',
+  'confirm.item.fiber': 'Fibra (g)',
+  'confirm.item.remove': '× Quitar',
+  'confirm.addItem': 'Añadir otro alimento',
+  'confirm.saveFavourite': 'Guardar como favorito',
+  'confirm.saveRecipe': 'Guardar como receta',
+  'confirm.doubtful.one': 'Una cifra parece dudosa; revísela antes de que la anote.',
+  'confirm.doubtful.other': '{count} cifras parecen dudosas; revíselas antes de que las anote.',
+  'confirm.cancel': 'Permítame reconsiderarlo',
+  'confirm.saving': 'Guardando...',
+  'confirm.saveChanges': 'Guardar cambios',
+  'confirm.record': 'Confirmar y anotar',
+  'confirm.toast.reanalyseError': 'No he podido volver a examinar su descripción. Inténtelo de nuevo.',
+  'confirm.toast.answerRecordError': 'No le he entendido. ¿Quizá prefiera escribir su respuesta?',
+  'confirm.toast.clarifyError': 'No he podido tener en cuenta su respuesta. Inténtelo de nuevo.',
+  'confirm.toast.missing.title': 'Faltan datos',
+  'confirm.toast.missing.description': 'Indique la cantidad y el nombre de cada alimento.',
+  'confirm.toast.saveError': 'No se ha podido guardar su comida. Inténtelo de nuevo.',
+};
+
+export default es;
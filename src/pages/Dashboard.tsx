@@ -1,16 +1,41 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useTranslation } from '@/hooks/useTranslation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import * as Recharts from 'recharts';
-import { Mic, Plus, History, User } from 'lucide-react';
+import { ChefHat, Mic, Plus, History, LineChart, ScanBarcode, Settings, User } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
 import RecordingModal from '@/components/RecordingModal';
 import ConfirmationModal from '@/components/ConfirmationModal';
-import MealCard from '@/components/MealCard';
+import MealGroups from '@/components/MealGroups';
+import GoalProgress from '@/components/GoalProgress';
+import PendingEntries from '@/components/PendingEntries';
+import MicronutrientPanel from '@/components/MicronutrientPanel';
+import FavouritesPicker from '@/components/FavouritesPicker';
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import WeighInCard from '@/components/WeighInCard';
+import RecipeModal from '@/components/RecipeModal';
+import { useMealActions } from '@/hooks/useMealActions';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useSavedFoods } from '@/hooks/useSavedFoods';
+import { useRecipes } from '@/hooks/useRecipes';
+import { useBodyMetrics } from '@/hooks/useBodyMetrics';
+import { Meal, TokenItem, mealToTokenItems } from '@/lib/meals';
+import { shiftDateString, todayInTimeZone } from '@/lib/dates';
+import { getGoals, hasGoals } from '@/lib/goals';
+import { getUnits } from '@/lib/bodyMetrics';
+import { sumMicronutrients } from '@/lib/micronutrients';
+import { AnalysisResult, ClarifyingQuestion, analyzeText, isNetworkError } from '@/lib/nutritionApi';
+import type { PendingEntry } from '@/lib/offlineQueue';
+import type { TimeHint } from '@/lib/dates';
+import { MealType, isMealType } from '@/lib/mealTypes';
+import type { NutritionWarning } from '@/lib/validation';
+import type { SavedFood } from '@/lib/savedFoods';
 
 // --- Type Definitions ---
 
@@ -22,23 +47,15 @@ interface DayData {
   fiber: number;
 }
 
-interface Meal {
-  id: string;
-  meal_name: string;
-  description: string;
-  total_calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  fiber: number;
-  micronutrients: any;
-  logged_at: string;
-}
+// Stable empty list so ConfirmationModal doesn't re-seed its edits on every render
+const NO_ITEMS: TokenItem[] = [];
 
 // --- Dashboard Component ---
 
 const Dashboard = () => {
   const { user, signOut } = useAuth();
+  const { profile, timeZone, languagePreference } = useProfile();
+  const { t } = useTranslation();
   const navigate = useNavigate();
   const { toast } = useToast();
   
@@ -46,9 +63,21 @@ const Dashboard = () => {
   const [dayData, setDayData] = useState<DayData>({ calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 });
   const [meals, setMeals] = useState<Meal[]>([]);
   const [manualEntry, setManualEntry] = useState('');
+  const [analyzingManual, setAnalyzingManual] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [analyzedItems, setAnalyzedItems] = useState<any[] | null>(null);
+  const [transcript, setTranscript] = useState('');
+  const [timeHint, setTimeHint] = useState<TimeHint | undefined>();
+  const [mealType, setMealType] = useState<MealType | undefined>();
+  const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
+  const [reviewingEntry, setReviewingEntry] = useState<PendingEntry | null>(null);
+  const [pickedFavourite, setPickedFavourite] = useState<SavedFood | null>(null);
+  const [mealPhoto, setMealPhoto] = useState<Blob | null>(null);
+  const [analysisWarnings, setAnalysisWarnings] = useState<NutritionWarning[] | undefined>();
+  const [questions, setQuestions] = useState<ClarifyingQuestion[] | undefined>();
+  const [recipeIngredients, setRecipeIngredients] = useState<TokenItem[] | null>(null); // Items being kept as a new recipe
   const [loading, setLoading] = useState(true);
 
   // --- Data Fetching ---
@@ -56,11 +85,11 @@ const Dashboard = () => {
     if (!user) return;
     
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayInTimeZone(timeZone);
       
       const { data: mealsData, error } = await supabase
         .from('meals')
-        .select('*')
+        .select('*, meal_items(*)')
         .eq('user_id', user.id)
         .eq('logged_date', today)
         .order('logged_at', { ascending: false });
@@ -89,47 +118,170 @@ const Dashboard = () => {
     if (user) {
       loadTodayData();
     }
-  }, [user]);
+  }, [user, timeZone]);
+
+  const { deleteMeal } = useMealActions(loadTodayData);
+  const offlineQueue = useOfflineQueue();
+  const savedFoods = useSavedFoods({ suggest: true });
+  const { saveRecipe } = useRecipes();
+  const today = todayInTimeZone(timeZone);
+  const bodyMetrics = useBodyMetrics(shiftDateString(today, -30));
 
   // --- Event Handlers ---
   const getGreeting = () => {
     const hour = new Date().getHours();
-    const name = user?.user_metadata?.display_name || user?.email?.split('@')[0] || 'esteemed guest';
+    const name = user?.user_metadata?.display_name || user?.email?.split('@')[0] || t('dashboard.guest');
     
-    if (hour < 12) return `Good morning, ${name}`;
-    if (hour < 17) return `Good afternoon, ${name}`;
-    return `Good evening, ${name}`;
+    if (hour < 12) return t('dashboard.greeting.morning', { name });
+    if (hour < 17) return t('dashboard.greeting.afternoon', { name });
+    return t('dashboard.greeting.evening', { name });
   };
 
-  const handleRecordingComplete = (result: { items: any[] }) => {
+  const handleRecordingComplete = (result: AnalysisResult, photo?: Blob) => {
     setAnalyzedItems(result.items || []);
+    setTranscript(result.transcript || '');
+    setTimeHint(result.when);
+    setMealType(result.meal_type);
+    setMealPhoto(photo ?? null);
+    setAnalysisWarnings(result.warnings);
+    setQuestions(result.questions);
     setIsRecording(false);
     setShowConfirmation(true);
   };
 
   const handleMealConfirmed = async () => {
+    const wasEditing = !!editingMeal;
+    // Only reached once the meal is saved, so the queued copy can go
+    if (reviewingEntry) {
+      await offlineQueue.remove(reviewingEntry.id);
+    }
+    if (pickedFavourite) {
+      await savedFoods.markUsed(pickedFavourite);
+    } else if (!wasEditing) {
+      await savedFoods.refresh(); // a new entry may tip an item into the suggestions
+    }
     setShowConfirmation(false);
     setAnalyzedItems(null);
+    setTranscript('');
+    setTimeHint(undefined);
+    setMealType(undefined);
+    setEditingMeal(null);
+    setReviewingEntry(null);
+    setPickedFavourite(null);
+    setMealPhoto(null);
+    setAnalysisWarnings(undefined);
+    setQuestions(undefined);
     await loadTodayData(); // Refresh data
+    toast(wasEditing ? {
+      title: t('dashboard.toast.amended.title'),
+      description: t('dashboard.toast.amended.description')
+    } : {
+      title: t('dashboard.toast.recorded.title'),
+      description: t('dashboard.toast.recorded.description')
+    });
+  };
+
+  const handleEditMeal = (meal: Meal) => {
+    setEditingMeal(meal);
+    setShowConfirmation(true);
+  };
+
+  const handleCloseConfirmation = () => {
+    setShowConfirmation(false);
+    setTimeHint(undefined);
+    setMealType(undefined);
+    setEditingMeal(null);
+    setReviewingEntry(null);
+    setPickedFavourite(null);
+    setMealPhoto(null);
+    setAnalysisWarnings(undefined);
+    setQuestions(undefined);
+  };
+
+  const handleBarcodeScanned = (item: TokenItem) => {
+    setAnalyzedItems([item]);
+    setTranscript('');
+    setMealType(undefined);
+    setIsScanning(false);
+    setShowConfirmation(true);
+  };
+
+  const handlePickFavourite = (items: TokenItem[], favourite?: SavedFood) => {
+    setAnalyzedItems(items);
+    setTranscript('');
+    setMealType(isMealType(favourite?.meal_type) ? favourite.meal_type : undefined);
+    setPickedFavourite(favourite ?? null);
+    setShowConfirmation(true);
+  };
+
+  const handleReviewPending = (entry: PendingEntry) => {
+    // A failed entry has no analysis; its note becomes an item to fill in
+    setAnalyzedItems(entry.items || (entry.text ? [{ qty: t('item.defaultQty'), n: entry.text }] : []));
+    setTranscript(entry.transcript || entry.text || '');
+    setMealType(entry.mealType);
+    setTimeHint(entry.when);
+    setAnalysisWarnings(entry.warnings);
+    setQuestions(entry.questions);
+    setReviewingEntry(entry);
+    setShowConfirmation(true);
+  };
+
+  const queueManualEntry = async (text: string) => {
+    await offlineQueue.enqueueText(text, new Date().toISOString());
+    setManualEntry('');
     toast({
-      title: "Meal recorded with distinction",
-      description: "Your nutritional entry has been meticulously logged."
+      title: t('toast.savedForLater'),
+      description: t('dashboard.toast.queued.description')
     });
   };
 
-  const handleManualEntry = () => {
-    if (manualEntry.trim()) {
-      setAnalyzedItems([{ qty: '1 serving', n: manualEntry.trim() }]);
-      setShowConfirmation(true);
-      setManualEntry('');
+  const handleManualEntry = async () => {
+    const text = manualEntry.trim();
+    if (!text || analyzingManual) return;
+
+    if (!navigator.onLine) {
+      await queueManualEntry(text);
+      return;
     }
+
+    setAnalyzingManual(true);
+    try {
+      const result = await analyzeText(text, languagePreference ?? undefined);
+      setAnalyzedItems(result.items.length ? result.items : [{ qty: t('item.defaultQty'), n: text }]);
+      setTimeHint(result.when);
+      setMealType(result.meal_type);
+      setAnalysisWarnings(result.warnings);
+      setQuestions(result.questions);
+    } catch (error) {
+      console.error('Error analyzing manual entry:', error);
+      // The browser can still think it is online after the signal drops
+      if (isNetworkError(error)) {
+        setAnalyzingManual(false);
+        await queueManualEntry(text);
+        return;
+      }
+      // Fall back to an unanalysed item so the note isn't lost
+      setAnalyzedItems([{ qty: t('item.defaultQty'), n: text }]);
+      toast({
+        variant: "destructive",
+        title: t('toast.analysisError'),
+        description: t('dashboard.toast.analysisError.description')
+      });
+    } finally {
+      setAnalyzingManual(false);
+    }
+    setTranscript(text);
+    setShowConfirmation(true);
+    setManualEntry('');
   };
 
+  const goals = getGoals(profile);
+
   // --- Chart Data ---
   const pieData = [
-    { name: 'Protein', value: Math.round(dayData.protein * 4), color: 'hsl(var(--chart-1))' },
-    { name: 'Carbs', value: Math.round(dayData.carbs * 4), color: 'hsl(var(--chart-2))' },
-    { name: 'Fat', value: Math.round(dayData.fat * 9), color: 'hsl(var(--chart-3))' }
+    { name: t('dashboard.macro.protein'), value: Math.round(dayData.protein * 4), color: 'hsl(var(--chart-1))' },
+    { name: t('dashboard.macro.carbs'), value: Math.round(dayData.carbs * 4), color: 'hsl(var(--chart-2))' },
+    { name: t('dashboard.macro.fat'), value: Math.round(dayData.fat * 9), color: 'hsl(var(--chart-3))' }
   ].filter(item => item.value > 0);
 
   // --- Render Logic ---
@@ -138,7 +290,7 @@ const Dashboard = () => {
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-butler-parchment">
         <div className="text-center">
           <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Preparing your ledger...</p>
+          <p className="text-muted-foreground">{t('dashboard.loading')}</p>
         </div>
       </div>
     );
@@ -159,11 +311,23 @@ const Dashboard = () => {
           <div className="flex gap-1 sm:gap-2">
             <Button variant="outline" size="sm" onClick={() => navigate('/history')}>
               <History className="w-4 h-4 md:mr-2" />
-              <span className="hidden md:inline">The Ledger</span>
+              <span className="hidden md:inline">{t('dashboard.nav.ledger')}</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/trends')}>
+              <LineChart className="w-4 h-4 md:mr-2" />
+              <span className="hidden md:inline">{t('dashboard.nav.trends')}</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/recipes')}>
+              <ChefHat className="w-4 h-4 md:mr-2" />
+              <span className="hidden md:inline">{t('dashboard.nav.recipes')}</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/settings')}>
+              <Settings className="w-4 h-4 md:mr-2" />
+              <span className="hidden md:inline">{t('dashboard.nav.preferences')}</span>
             </Button>
             <Button variant="ghost" size="sm" onClick={signOut}>
               <User className="w-4 h-4 md:mr-2" />
-               <span className="hidden md:inline">Sign Out</span>
+               <span className="hidden md:inline">{t('dashboard.nav.signOut')}</span>
             </Button>
           </div>
         </div>
@@ -176,11 +340,11 @@ const Dashboard = () => {
           {/* --- Macro Chart Card --- */}
           <Card className="card-butler hover-elevate">
             <CardHeader className="text-center">
-              <CardTitle className="text-butler-heading">Today's Nutritional Summary</CardTitle>
+              <CardTitle className="text-butler-heading">{t('dashboard.summary.title')}</CardTitle>
               <CardDescription>
                 {dayData.calories > 0 
-                  ? `${Math.round(dayData.calories)} calories consumed with precision`
-                  : "Your ledger awaits the first entry of the day"
+                  ? t('dashboard.summary.consumed', { calories: Math.round(dayData.calories) })
+                  : t('dashboard.summary.empty')
                 }
               </CardDescription>
             </CardHeader>
@@ -213,19 +377,24 @@ const Dashboard = () => {
                     <div className="w-16 h-16 border-2 border-dashed border-muted-foreground/30 rounded-full mx-auto mb-4 flex items-center justify-center">
                       <Plus className="w-8 h-8" />
                     </div>
-                    <p>No meals recorded yet today</p>
+                    <p>{t('dashboard.summary.noMeals')}</p>
                   </div>
                 </div>
               )}
+              {hasGoals(goals) && (
+                <div className="mt-6">
+                  <GoalProgress totals={dayData} goals={goals} />
+                </div>
+              )}
             </CardContent>
           </Card>
 
           {/* --- Recording Card --- */}
           <Card className="card-butler">
             <CardHeader>
-              <CardTitle className="text-butler-heading">Record Your Meal</CardTitle>
+              <CardTitle className="text-butler-heading">{t('dashboard.record.title')}</CardTitle>
               <CardDescription>
-                Please describe your culinary experience
+                {t('dashboard.record.description')}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4 flex flex-col justify-center h-full pb-6">
@@ -234,7 +403,11 @@ const Dashboard = () => {
                 className="w-full h-20 text-lg btn-butler hover-elevate"
               >
                 <Mic className="w-6 h-6 mr-3" />
-                Ready to Record
+                {t('dashboard.record.start')}
+              </Button>
+              <Button variant="outline" onClick={() => setIsScanning(true)} className="w-full">
+                <ScanBarcode className="w-4 h-4 mr-2" />
+                {t('dashboard.record.scan')}
               </Button>
               
               <div className="relative">
@@ -242,37 +415,78 @@ const Dashboard = () => {
                   <span className="w-full border-t border-border" />
                 </div>
                 <div className="relative flex justify-center text-xs uppercase">
-                  <span className="bg-card px-2 text-muted-foreground">Or, if you prefer</span>
+                  <span className="bg-card px-2 text-muted-foreground">{t('dashboard.record.or')}</span>
                 </div>
               </div>
               
               <div className="flex flex-col sm:flex-row gap-2">
                 <Input
-                  placeholder="A written note, if you prefer..."
+                  placeholder={t('dashboard.record.placeholder')}
                   value={manualEntry}
                   onChange={(e) => setManualEntry(e.target.value)}
                   onKeyPress={(e) => e.key === 'Enter' && handleManualEntry()}
+                  disabled={analyzingManual}
                   className="flex-1"
                 />
-                <Button onClick={handleManualEntry} disabled={!manualEntry.trim()} className="w-full sm:w-auto">
-                  <Plus className="w-4 h-4" />
+                <Button onClick={handleManualEntry} disabled={!manualEntry.trim() || analyzingManual} className="w-full sm:w-auto">
+                  {analyzingManual ? (
+                    <div className="animate-spin w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full"></div>
+                  ) : (
+                    <Plus className="w-4 h-4" />
+                  )}
                 </Button>
               </div>
+
+              <FavouritesPicker
+                favourites={savedFoods.favourites}
+                suggestions={savedFoods.suggestions}
+                onPick={handlePickFavourite}
+                onSaveSuggestion={(item) => savedFoods.saveFavourite([item])}
+                onRemove={savedFoods.removeFavourite}
+              />
             </CardContent>
           </Card>
         </div>
 
+        {/* --- Micronutrients --- */}
+        {meals.length > 0 && (
+          <MicronutrientPanel totals={sumMicronutrients(meals)} profile={profile} />
+        )}
+
+        {/* --- Weigh-in --- */}
+        <WeighInCard
+          metrics={bodyMetrics.metrics}
+          today={today}
+          units={getUnits(profile)}
+          onLog={(values) => bodyMetrics.logMetrics(today, values)}
+          onShowTrend={() => navigate('/trends')}
+        />
+
+        {/* --- Offline Queue --- */}
+        {offlineQueue.entries.length > 0 && (
+          <PendingEntries
+            entries={offlineQueue.entries}
+            syncing={offlineQueue.syncing}
+            onRetry={offlineQueue.retry}
+            onReview={handleReviewPending}
+            onDiscard={(entry) => offlineQueue.remove(entry.id)}
+          />
+        )}
+
         {/* --- Today's Meals List --- */}
         {meals.length > 0 && (
           <div>
             <h2 className="text-butler-heading text-xl font-semibold mb-4">
-              Today's Entries
+              {t('dashboard.entries')}
             </h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {meals.map((meal) => (
-                <MealCard key={meal.id} meal={meal} />
-              ))}
-            </div>
+            <MealGroups
+              meals={meals}
+              timeZone={timeZone}
+              onEdit={handleEditMeal}
+              onDelete={deleteMeal}
+              onFavourite={(meal) => savedFoods.saveFavourite(mealToTokenItems(meal), isMealType(meal.meal_type) ? meal.meal_type : null)}
+              gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
+            />
           </div>
         )}
       </main>
@@ -282,13 +496,37 @@ const Dashboard = () => {
         isOpen={isRecording}
         onClose={() => setIsRecording(false)}
         onRecordingComplete={handleRecordingComplete}
+        onQueueForLater={offlineQueue.enqueueAudio}
+      />
+
+      <BarcodeScannerModal
+        isOpen={isScanning}
+        onClose={() => setIsScanning(false)}
+        onScanned={handleBarcodeScanned}
       />
 
       <ConfirmationModal
         isOpen={showConfirmation}
-        onClose={() => setShowConfirmation(false)}
-        items={analyzedItems || []}
+        onClose={handleCloseConfirmation}
+        items={analyzedItems || NO_ITEMS}
+        transcript={transcript}
         onConfirm={handleMealConfirmed}
+        meal={editingMeal}
+        loggedAt={reviewingEntry?.capturedAt}
+        timeHint={timeHint}
+        mealType={mealType}
+        onSaveFavourite={savedFoods.saveFavourite}
+        onSaveRecipe={setRecipeIngredients}
+        photo={mealPhoto}
+        warnings={analysisWarnings}
+        questions={questions}
+      />
+
+      <RecipeModal
+        isOpen={!!recipeIngredients}
+        onClose={() => setRecipeIngredients(null)}
+        onSave={saveRecipe}
+        ingredients={recipeIngredients ?? undefined}
       />
     </div>
   );
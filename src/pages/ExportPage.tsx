@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { supabase } from '@/integrations/supabase/client';
+import { shiftDateString, todayInTimeZone } from '@/lib/dates';
+import { TREND_RANGES } from '@/lib/trends';
+import { EXPORT_FORMATS, ExportFormat, buildExport, downloadFile } from '@/lib/export';
+import type { Meal } from '@/lib/meals';
+
+// Rows fetched per request; Supabase caps a single select at 1000
+const PAGE_SIZE = 500;
+
+const ExportPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { timeZone } = useProfile();
+  const today = todayInTimeZone(timeZone);
+  const [from, setFrom] = useState(() => shiftDateString(today, -6));
+  const [to, setTo] = useState(today);
+  const [format, setFormat] = useState<ExportFormat>('csv-meals');
+  const [exporting, setExporting] = useState(false);
+
+  const loadMeals = async (userId: string) => {
+    const meals: Meal[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('meals')
+        .select('*, meal_items(*)')
+        .eq('user_id', userId)
+        .gte('logged_date', from)
+        .lte('logged_date', to)
+        .order('logged_at', { ascending: true })
+        .order('id', { ascending: true }) // meals logged at the same instant keep their place across pages
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+      meals.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return meals;
+    }
+  };
+
+  const handleExport = async () => {
+    if (!user) return;
+    if (!from || !to || from > to) {
+      toast({ variant: 'destructive', title: 'Unlikely range', description: 'The first day must come before the last.' });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const meals = await loadMeals(user.id);
+      if (!meals.length) {
+        toast({ title: 'Nothing to export', description: 'No meals were recorded in this period.' });
+        return;
+      }
+      downloadFile(buildExport(format, meals, { from, to }, timeZone));
+      toast({ title: 'Export ready', description: `${meals.length} meal${meals.length !== 1 ? 's' : ''} from the ledger, as requested.` });
+    } catch (error) {
+      console.error('Error exporting meals:', error);
+      toast({ variant: 'destructive', title: 'Export Error', description: 'Unable to prepare your export. Please try again.' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-butler-parchment">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/settings')} className="hover-elevate">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Return to Preferences
+          </Button>
+          <div>
+            <h1 className="text-butler-heading text-2xl font-bold text-primary">Export</h1>
+            <p className="text-sm text-muted-foreground">Your ledger, to take wherever you please</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <Card className="card-butler">
+          <CardHeader>
+            <CardTitle className="text-butler-heading">Period</CardTitle>
+            <CardDescription>
+              Meals are included by the day they were eaten.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-from" className="text-butler-body">From</Label>
+                <Input id="export-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-to" className="text-butler-body">To</Label>
+                <Input id="export-to" type="date" value={to} min={from} max={today} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {TREND_RANGES.map((days) => (
+                <Button
+                  key={days}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setFrom(shiftDateString(today, -(days - 1)));
+                    setTo(today);
+                  }}
+                >
+                  {days === 365 ? 'Past year' : `Past ${days} days`}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-butler">
+          <CardHeader>
+            <CardTitle className="text-butler-heading">Format</CardTitle>
+            <CardDescription>
+              Prepared on this device; nothing is sent anywhere.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="space-y-3">
+              {EXPORT_FORMATS.map(({ key, label, description }) => (
+                <div key={key} className="flex items-start gap-3">
+                  <RadioGroupItem value={key} id={`format-${key}`} className="mt-1" />
+                  <Label htmlFor={`format-${key}`} className="font-normal cursor-pointer">
+                    <span className="block font-medium text-butler-body">{label}</span>
+                    <span className="block text-sm text-muted-foreground">{description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </CardContent>
+        </Card>
+
+        <Button onClick={handleExport} disabled={exporting || !user} className="w-full btn-butler">
+          <Download className="w-4 h-4 mr-2" />
+          {exporting ? 'Preparing...' : 'Download'}
+        </Button>
+      </main>
+    </div>
+  );
+};
+
+export default ExportPage;
@@ -1,53 +1,62 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { useNavigate } from 'react-router-dom';
+import { useProfile } from '@/hooks/useProfile';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Calendar } from '@/components/ui/calendar';
-import { ArrowLeft, Calendar as CalendarIcon } from 'lucide-react';
+import { ArrowLeft, Calendar as CalendarIcon, Mic, Plus } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import MealCard from '@/components/MealCard';
+import MealGroups from '@/components/MealGroups';
+import ConfirmationModal from '@/components/ConfirmationModal';
+import RecordingModal from '@/components/RecordingModal';
+import { useMealActions } from '@/hooks/useMealActions';
+import { useSavedFoods } from '@/hooks/useSavedFoods';
+import { useToast } from '@/components/ui/use-toast';
+import { Meal, TokenItem, mealToTokenItems } from '@/lib/meals';
 import { format } from 'date-fns';
+import { getGoals, hasGoals, isDayOnPlan } from '@/lib/goals';
+import { TimeHint, fromDateString, shiftDateString, toDateString, todayInTimeZone } from '@/lib/dates';
+import type { AnalysisResult, ClarifyingQuestion } from '@/lib/nutritionApi';
+import { MealType, isMealType } from '@/lib/mealTypes';
+import type { NutritionWarning } from '@/lib/validation';
+import { DaySummary, toDaySummary } from '@/lib/trends';
 
-interface Meal {
-  id: string;
-  meal_name: string;
-  description: string;
-  total_calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  fiber: number;
-  micronutrients: any;
-  logged_at: string;
-}
-
-interface DaySummary {
-  date: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  mealCount: number;
-}
+// Stable empty list so ConfirmationModal doesn't re-seed its edits on every render
+const NO_ITEMS: TokenItem[] = [];
 
 const HistoryPage = () => {
   const { user } = useAuth();
+  const { profile, timeZone } = useProfile();
   const navigate = useNavigate();
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const location = useLocation();
+  // Other pages may link straight to a day, e.g. the best/worst days in Trends
+  const linkedDate = (location.state as { date?: string } | null)?.date;
+  const [selectedDate, setSelectedDate] = useState<Date>(() => fromDateString(linkedDate || todayInTimeZone(timeZone)));
   const [meals, setMeals] = useState<Meal[]>([]);
   const [daySummaries, setDaySummaries] = useState<DaySummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isLogging, setIsLogging] = useState(false);
+  const [loggingItems, setLoggingItems] = useState<TokenItem[]>(NO_ITEMS);
+  const [loggingTranscript, setLoggingTranscript] = useState('');
+  const [loggingHint, setLoggingHint] = useState<TimeHint | undefined>();
+  const [loggingType, setLoggingType] = useState<MealType | undefined>();
+  const [loggingPhoto, setLoggingPhoto] = useState<Blob | null>(null);
+  const [loggingWarnings, setLoggingWarnings] = useState<NutritionWarning[] | undefined>();
+  const [loggingQuestions, setLoggingQuestions] = useState<ClarifyingQuestion[] | undefined>();
+  const { toast } = useToast();
 
   const loadMealsForDate = async (date: Date) => {
     if (!user) return;
     
     try {
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = toDateString(date);
       
       const { data: meals, error } = await supabase
         .from('meals')
-        .select('*')
+        .select('*, meal_items(*)')
         .eq('user_id', user.id)
         .eq('logged_date', dateStr)
         .order('logged_at', { ascending: false });
@@ -63,45 +72,19 @@ const HistoryPage = () => {
     if (!user) return;
     
     try {
-      // Get last 30 days of data
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      const dateStr = thirtyDaysAgo.toISOString().split('T')[0];
+      // Get last 30 days of data, counted in the user's local days
+      const dateStr = shiftDateString(todayInTimeZone(timeZone), -30);
       
-      const { data: meals, error } = await supabase
-        .from('meals')
-        .select('logged_date, total_calories, protein, carbs, fat')
+      const { data, error } = await supabase
+        .from('daily_nutrition')
+        .select('*')
         .eq('user_id', user.id)
         .gte('logged_date', dateStr)
         .order('logged_date', { ascending: false });
 
       if (error) throw error;
 
-      // Group by date and calculate summaries
-      const summaryMap = new Map<string, DaySummary>();
-      
-      meals?.forEach(meal => {
-        const date = meal.logged_date;
-        if (!summaryMap.has(date)) {
-          summaryMap.set(date, {
-            date,
-            calories: 0,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-            mealCount: 0
-          });
-        }
-        
-        const summary = summaryMap.get(date)!;
-        summary.calories += Number(meal.total_calories) || 0;
-        summary.protein += Number(meal.protein) || 0;
-        summary.carbs += Number(meal.carbs) || 0;
-        summary.fat += Number(meal.fat) || 0;
-        summary.mealCount += 1;
-      });
-      
-      setDaySummaries(Array.from(summaryMap.values()));
+      setDaySummaries((data || []).map(toDaySummary));
     } catch (error) {
       console.error('Error loading history summary:', error);
     }
@@ -118,10 +101,66 @@ const HistoryPage = () => {
     };
     
     loadData();
-  }, [user, selectedDate]);
+  }, [user, selectedDate, timeZone]);
+
+  const refreshHistory = async () => {
+    await Promise.all([
+      loadMealsForDate(selectedDate),
+      loadHistorySummary()
+    ]);
+  };
+
+  const { deleteMeal } = useMealActions(refreshHistory);
+  const { saveFavourite } = useSavedFoods();
+
+  const closeConfirmation = () => {
+    setEditingMeal(null);
+    setIsLogging(false);
+    setLoggingItems(NO_ITEMS);
+    setLoggingTranscript('');
+    setLoggingHint(undefined);
+    setLoggingType(undefined);
+    setLoggingPhoto(null);
+    setLoggingWarnings(undefined);
+    setLoggingQuestions(undefined);
+  };
+
+  const handleMealSaved = async () => {
+    const wasEditing = !!editingMeal;
+    closeConfirmation();
+    await refreshHistory();
+    toast(wasEditing ? {
+      title: "Entry amended",
+      description: "Your correction has been duly noted in the ledger."
+    } : {
+      title: "Meal recorded with distinction",
+      description: `Entered into the ledger for ${format(selectedDate, 'MMMM d')}.`
+    });
+  };
+
+  // "Log for this day": voice, photo or by hand, dated to the selected calendar day
+  const handleRecordingComplete = (result: AnalysisResult, photo?: Blob) => {
+    setLoggingItems(result.items || NO_ITEMS);
+    setLoggingTranscript(result.transcript || '');
+    setLoggingHint(result.when);
+    setLoggingType(result.meal_type);
+    setLoggingPhoto(photo ?? null);
+    setLoggingWarnings(result.warnings);
+    setLoggingQuestions(result.questions);
+    setIsRecording(false);
+    setIsLogging(true);
+  };
+
+  const handleLogByHand = () => {
+    setLoggingItems(NO_ITEMS);
+    setLoggingTranscript('');
+    setLoggingHint(undefined);
+    setLoggingType(undefined);
+    setIsLogging(true);
+  };
 
   const getDateSummary = (date: Date) => {
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = toDateString(date);
     return daySummaries.find(summary => summary.date === dateStr);
   };
 
@@ -129,7 +168,16 @@ const HistoryPage = () => {
     return !!getDateSummary(date);
   };
 
+  const goals = getGoals(profile);
+
+  const isOnPlan = (date: Date) => {
+    const summary = getDateSummary(date);
+    return !!summary && isDayOnPlan(summary, goals) === true;
+  };
+
   const selectedDateSummary = getDateSummary(selectedDate);
+  const selectedDateStr = toDateString(selectedDate);
+  const isFutureDate = selectedDateStr > todayInTimeZone(timeZone);
 
   if (loading) {
     return (
@@ -178,21 +226,31 @@ const HistoryPage = () => {
                   onSelect={(date) => date && setSelectedDate(date)}
                   className="rounded-md border-0"
                   modifiers={{
-                    hasData: (date) => hasDataForDate(date)
+                    hasData: (date) => hasDataForDate(date),
+                    onPlan: (date) => isOnPlan(date)
                   }}
                   modifiersStyles={{
                     hasData: { 
                       backgroundColor: 'hsl(var(--primary) / 0.1)',
                       color: 'hsl(var(--primary))',
                       fontWeight: 'bold'
+                    },
+                    onPlan: {
+                      boxShadow: 'inset 0 0 0 2px hsl(var(--primary))'
                     }
                   }}
                 />
-                <div className="mt-4 text-xs text-muted-foreground">
+                <div className="mt-4 space-y-1 text-xs text-muted-foreground">
                   <div className="flex items-center gap-2">
                     <div className="w-3 h-3 rounded bg-primary/20"></div>
                     <span>Days with recorded meals</span>
                   </div>
+                  {hasGoals(goals) && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded border-2 border-primary"></div>
+                      <span>Days within your targets</span>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -203,16 +261,29 @@ const HistoryPage = () => {
             <div className="space-y-6">
               {/* Date Summary */}
               <Card className="card-butler">
-                <CardHeader>
-                  <CardTitle className="text-butler-heading">
-                    {format(selectedDate, 'EEEE, MMMM d, yyyy')}
-                  </CardTitle>
-                  <CardDescription>
-                    {selectedDateSummary 
-                      ? `${selectedDateSummary.mealCount} meal${selectedDateSummary.mealCount !== 1 ? 's' : ''} recorded`
-                      : "No entries recorded for this date"
-                    }
-                  </CardDescription>
+                <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="text-butler-heading">
+                      {format(selectedDate, 'EEEE, MMMM d, yyyy')}
+                    </CardTitle>
+                    <CardDescription>
+                      {selectedDateSummary 
+                        ? `${selectedDateSummary.mealCount} meal${selectedDateSummary.mealCount !== 1 ? 's' : ''} recorded`
+                        : "No entries recorded for this date"
+                      }
+                    </CardDescription>
+                  </div>
+                  {!isFutureDate && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setIsRecording(true)}>
+                        <Mic className="w-4 h-4 mr-2" />
+                        Log for this day
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={handleLogByHand} aria-label="Add by hand">
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
                 </CardHeader>
                 {selectedDateSummary && (
                   <CardContent>
@@ -252,11 +323,13 @@ const HistoryPage = () => {
                   <h2 className="text-butler-heading text-xl font-semibold mb-4">
                     Recorded Meals
                   </h2>
-                  <div className="grid grid-cols-1 gap-4">
-                    {meals.map((meal) => (
-                      <MealCard key={meal.id} meal={meal} />
-                    ))}
-                  </div>
+                  <MealGroups
+                    meals={meals}
+                    timeZone={timeZone}
+                    onEdit={setEditingMeal}
+                    onDelete={deleteMeal}
+                    onFavourite={(meal) => saveFavourite(mealToTokenItems(meal), isMealType(meal.meal_type) ? meal.meal_type : null)}
+                  />
                 </div>
               ) : selectedDateSummary ? (
                 <Card className="card-butler">
@@ -282,6 +355,28 @@ const HistoryPage = () => {
           </div>
         </div>
       </main>
+
+      <RecordingModal
+        isOpen={isRecording}
+        onClose={() => setIsRecording(false)}
+        onRecordingComplete={handleRecordingComplete}
+      />
+
+      <ConfirmationModal
+        isOpen={!!editingMeal || isLogging}
+        onClose={closeConfirmation}
+        items={loggingItems}
+        transcript={loggingTranscript}
+        onConfirm={handleMealSaved}
+        meal={editingMeal}
+        defaultDate={isLogging ? selectedDateStr : undefined}
+        timeHint={loggingHint}
+        mealType={loggingType}
+        onSaveFavourite={saveFavourite}
+        photo={loggingPhoto}
+        warnings={loggingWarnings}
+        questions={loggingQuestions}
+      />
     </div>
   );
 };
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { supabase } from '@/integrations/supabase/client';
+import { OCCASION_TIMES, fromDateString, fromZonedDateTime } from '@/lib/dates';
+import { IMPORT_FORMATS, ImportedMeal, ParsedImport, duplicateKey, importTotals, parseImport } from '@/lib/import';
+import { toMealItemRows } from '@/lib/meals';
+import { MEAL_TYPES } from '@/lib/mealTypes';
+
+// Meals inserted per request, with their items in a second request
+const BATCH_SIZE = 100;
+
+// Rows read per request when checking for existing entries
+const PAGE_SIZE = 1000;
+
+// Rows shown before importing; the rest are counted
+const PREVIEW_ROWS = 25;
+
+interface ImportRow extends ImportedMeal {
+  duplicate: boolean;
+}
+
+const ImportPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { timeZone } = useProfile();
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState(0);
+
+  // Names already in the ledger over the export's dates, keyed by duplicateKey
+  const loadExistingKeys = async (userId: string, from: string, to: string) => {
+    const keys = new Set<string>();
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('meals')
+        .select('logged_date, meal_name')
+        .eq('user_id', userId)
+        .gte('logged_date', from)
+        .lte('logged_date', to)
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+      for (const meal of data || []) keys.add(duplicateKey(meal.logged_date, meal.meal_name));
+      if (!data || data.length < PAGE_SIZE) return keys;
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !user) return;
+    setReading(true);
+    setParsed(null);
+    setRows([]);
+    setImported(0);
+    try {
+      const result = parseImport(await file.text());
+      if (!result) {
+        toast({ variant: 'destructive', title: 'Unfamiliar file', description: 'I recognise CSV exports from MyFitnessPal, Cronometer and Lose It!' });
+        return;
+      }
+      if (!result.meals.length) {
+        toast({ variant: 'destructive', title: 'Nothing to import', description: 'I found no meals in that file.' });
+        return;
+      }
+
+      // Entries already logged, or repeated within the file, are left out
+      const seen = await loadExistingKeys(user.id, result.meals[0].date, result.meals[result.meals.length - 1].date);
+      setRows(result.meals.map(meal => {
+        const key = duplicateKey(meal.date, meal.meal_name);
+        const duplicate = seen.has(key);
+        seen.add(key);
+        return { ...meal, duplicate };
+      }));
+      setParsed(result);
+    } catch (error) {
+      console.error('Error reading import:', error);
+      toast({ variant: 'destructive', title: 'Import Error', description: 'Unable to read that file. Please try again.' });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const toMealRow = (userId: string, meal: ImportedMeal, source: string) => {
+    const { micronutrients, ...totals } = importTotals(meal.items);
+    const time = meal.time || OCCASION_TIMES[meal.meal_type] || '12:00';
+    return {
+      user_id: userId,
+      logged_at: fromZonedDateTime(meal.date, time, timeZone).toISOString(),
+      logged_date: meal.date,
+      meal_type: meal.meal_type,
+      meal_name: meal.meal_name,
+      description: `Imported from ${source}`,
+      ...totals,
+      micronutrients,
+    };
+  };
+
+  const handleImport = async () => {
+    if (!user || !parsed) return;
+    const pending = rows.filter(row => !row.duplicate);
+    const source = IMPORT_FORMATS[parsed.source].label;
+
+    setImporting(true);
+    setImported(0);
+    try {
+      for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+        const batch = pending.slice(start, start + BATCH_SIZE);
+        const { data: inserted, error } = await supabase
+          .from('meals')
+          .insert(batch.map(meal => toMealRow(user.id, meal, source)))
+          .select('id');
+        if (error) throw error;
+
+        // Rows come back in the order they were sent
+        const items = inserted.flatMap(({ id }, index) => toMealItemRows(id, user.id, batch[index].items));
+        const { error: itemsError } = await supabase.from('meal_items').insert(items);
+        if (itemsError) {
+          // Meals without their items would pass for duplicates on a retry
+          const { error: cleanupError } = await supabase.from('meals').delete().in('id', inserted.map(({ id }) => id));
+          if (cleanupError) console.error('Error removing meals whose items failed to import:', cleanupError);
+          throw itemsError;
+        }
+
+        // Saved rows count as duplicates at once, so importing again after a
+        // later batch fails leaves them out
+        const saved = new Set<ImportRow>(batch);
+        setRows(current => current.map(row => (saved.has(row) ? { ...row, duplicate: true } : row)));
+        setImported(start + batch.length);
+      }
+
+      toast({ title: 'History imported', description: `${pending.length} meal${pending.length !== 1 ? 's' : ''} from ${source} now grace your ledger.` });
+    } catch (error) {
+      console.error('Error importing meals:', error);
+      toast({ variant: 'destructive', title: 'Import Error', description: 'The import stopped part way. Importing again will pick up where it left off.' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const newCount = rows.filter(row => !row.duplicate).length;
+  // newCount shrinks as each batch is saved
+  const importTotal = imported + newCount;
+  const mealTypeLabel = (key: string) => MEAL_TYPES.find(type => type.key === key)?.label ?? key;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-butler-parchment">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/settings')} className="hover-elevate">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Return to Preferences
+          </Button>
+          <div>
+            <h1 className="text-butler-heading text-2xl font-bold text-primary">Import</h1>
+            <p className="text-sm text-muted-foreground">Bring your history from another tracker</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <Card className="card-butler">
+          <CardHeader>
+            <CardTitle className="text-butler-heading">Choose an Export</CardTitle>
+            <CardDescription>
+              A CSV from MyFitnessPal (Nutrition), Cronometer (Servings) or Lose It! (Food Log). Nothing is saved until you say so.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="import-file" className="text-butler-body">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              disabled={reading || importing}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {reading && <p className="text-sm text-muted-foreground">Reading through it...</p>}
+          </CardContent>
+        </Card>
+
+        {parsed && (
+          <Card className="card-butler">
+            <CardHeader>
+              <CardTitle className="text-butler-heading">{IMPORT_FORMATS[parsed.source].label} Export</CardTitle>
+              <CardDescription>
+                {rows.length} meal{rows.length !== 1 ? 's' : ''} from {format(fromDateString(rows[0].date), 'MMM d, yyyy')} to {format(fromDateString(rows[rows.length - 1].date), 'MMM d, yyyy')}
+                {rows.length > newCount && `; ${rows.length - newCount} already in your ledger`}
+                {parsed.skipped > 0 && `; ${parsed.skipped} row${parsed.skipped !== 1 ? 's' : ''} of exercise or without a date passed over`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Meal</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead className="text-right">Calories</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <TableRow key={index} className={row.duplicate ? 'opacity-50' : ''}>
+                      <TableCell className="whitespace-nowrap">{format(fromDateString(row.date), 'MMM d')}</TableCell>
+                      <TableCell>{mealTypeLabel(row.meal_type)}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={row.meal_name}>{row.items.map(item => item.n).join(', ')}</TableCell>
+                      <TableCell className="text-right">{Math.round(importTotals(row.items).total_calories)}</TableCell>
+                      <TableCell>
+                        {row.duplicate && <Badge variant="outline" className="text-xs font-normal">Already logged</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground text-center">And {rows.length - PREVIEW_ROWS} more.</p>
+              )}
+
+              {importing && <Progress value={(imported / Math.max(importTotal, 1)) * 100} />}
+
+              <Button onClick={handleImport} disabled={importing || newCount === 0} className="w-full btn-butler">
+                <Upload className="w-4 h-4 mr-2" />
+                {importing
+                  ? `Importing ${imported} of ${importTotal}...`
+                  : newCount === 0
+                    ? 'Nothing new to import'
+                    : `Import ${newCount} Meal${newCount !== 1 ? 's' : ''}`}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ImportPage;
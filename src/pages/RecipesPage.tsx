@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ChefHat, Mic, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import ConfirmationModal from '@/components/ConfirmationModal';
+import RecipeModal from '@/components/RecipeModal';
+import RecordingModal from '@/components/RecordingModal';
+import { useRecipes } from '@/hooks/useRecipes';
+import type { TokenItem } from '@/lib/meals';
+import type { AnalysisResult } from '@/lib/nutritionApi';
+import { Recipe, describeYield, portionLabel, recipeIngredients, recipeItem } from '@/lib/recipes';
+
+const NO_ITEMS: TokenItem[] = [];
+
+const RecipesPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { recipes, loading, saveRecipe, removeRecipe } = useRecipes();
+  const [isComposing, setIsComposing] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [seedIngredients, setSeedIngredients] = useState<TokenItem[]>(NO_ITEMS);
+  const [isRecording, setIsRecording] = useState(false);
+  const [loggingItems, setLoggingItems] = useState<TokenItem[]>(NO_ITEMS);
+
+  const closeComposer = () => {
+    setIsComposing(false);
+    setEditingRecipe(null);
+    setSeedIngredients(NO_ITEMS);
+  };
+
+  const handleNewRecipe = () => {
+    setSeedIngredients(NO_ITEMS);
+    setIsComposing(true);
+  };
+
+  // Dictated ingredients seed a new recipe rather than a meal
+  const handleRecordingComplete = (result: AnalysisResult) => {
+    setSeedIngredients(result.items || NO_ITEMS);
+    setIsRecording(false);
+    setIsComposing(true);
+  };
+
+  const handleEdit = (recipe: Recipe) => {
+    setEditingRecipe(recipe);
+    setIsComposing(true);
+  };
+
+  const handleMealSaved = () => {
+    setLoggingItems(NO_ITEMS);
+    toast({
+      title: "Meal recorded with distinction",
+      description: "Your serving has been entered into today's ledger."
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-butler-parchment">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/')} className="hover-elevate">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Return to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-butler-heading text-2xl font-bold text-primary">Recipes</h1>
+            <p className="text-sm text-muted-foreground">Your own dishes, ready to log by the portion</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6 max-w-3xl">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={handleNewRecipe} className="btn-butler sm:flex-1">
+            <Plus className="w-4 h-4 mr-2" />
+            New Recipe
+          </Button>
+          <Button variant="outline" onClick={() => setIsRecording(true)} className="sm:flex-1">
+            <Mic className="w-4 h-4 mr-2" />
+            Dictate the Ingredients
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : recipes.length === 0 ? (
+          <Card className="card-butler">
+            <CardContent className="text-center py-8">
+              <ChefHat className="w-8 h-8 mx-auto mb-3 text-muted-foreground" />
+              <p className="text-muted-foreground">No recipes in the book as yet.</p>
+              <p className="text-sm text-muted-foreground mt-2">
+                Add the dishes you cook at home; then "a bowl of my chili" is all I need to hear.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          recipes.map((recipe) => {
+            const ingredients = recipeIngredients(recipe);
+            return (
+              <Card key={recipe.id} className="card-butler">
+                <CardHeader>
+                  <CardTitle className="text-butler-heading">{recipe.name}</CardTitle>
+                  <CardDescription>
+                    Makes {describeYield(recipe)} · {ingredients.length} ingredient{ingredients.length !== 1 ? 's' : ''}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm">
+                    <span className="font-medium">Per {portionLabel(recipe, 1)}:</span>{' '}
+                    {Math.round(Number(recipe.calories) || 0)} cal · {Number(recipe.protein) || 0}g protein · {Number(recipe.carbs) || 0}g carbs · {Number(recipe.fat) || 0}g fat
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {ingredients.map(item => [item.qty, item.n].filter(Boolean).join(' ')).join(', ')}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" onClick={() => setLoggingItems([recipeItem(recipe)])}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Log a Portion
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(recipe)}>
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Amend
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeRecipe(recipe)} className="text-destructive hover:text-destructive">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </main>
+
+      <RecipeModal
+        isOpen={isComposing}
+        onClose={closeComposer}
+        onSave={saveRecipe}
+        recipe={editingRecipe}
+        ingredients={seedIngredients}
+      />
+
+      <RecordingModal
+        isOpen={isRecording}
+        onClose={() => setIsRecording(false)}
+        onRecordingComplete={handleRecordingComplete}
+      />
+
+      <ConfirmationModal
+        isOpen={loggingItems.length > 0}
+        onClose={() => setLoggingItems(NO_ITEMS)}
+        items={loggingItems}
+        onConfirm={handleMealSaved}
+      />
+    </div>
+  );
+};
+
+export default RecipesPage;
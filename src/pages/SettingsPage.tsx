@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Check, Download, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useProfile } from '@/hooks/useProfile';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { GOAL_FIELDS, GoalColumn } from '@/lib/goals';
+import { getBrowserTimeZone, isValidTimeZone } from '@/lib/dates';
+import { LANGUAGES, isLanguage, type Language } from '@/lib/i18n';
+import { getUnits, type Units } from '@/lib/bodyMetrics';
+
+const SettingsPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { profile, loading, updateProfile } = useProfile();
+  const [goals, setGoals] = useState<Record<GoalColumn, string>>({
+    calorie_goal: '', protein_goal: '', carbs_goal: '', fat_goal: '', fiber_goal: ''
+  });
+  const [timeZone, setTimeZone] = useState('');
+  const [sex, setSex] = useState('');
+  const [birthYear, setBirthYear] = useState('');
+  const [language, setLanguage] = useState<Language | 'auto'>('auto');
+  const [units, setUnits] = useState<Units>('metric');
+  const [saving, setSaving] = useState(false);
+
+  // Seed the form once the profile arrives
+  useEffect(() => {
+    if (!profile) return;
+    const seeded = {} as Record<GoalColumn, string>;
+    for (const { column } of GOAL_FIELDS) {
+      seeded[column] = profile[column] != null ? String(profile[column]) : '';
+    }
+    setGoals(seeded);
+    setTimeZone(profile.timezone || getBrowserTimeZone());
+    setSex(profile.sex || '');
+    setBirthYear(profile.birth_year != null ? String(profile.birth_year) : '');
+    setLanguage(isLanguage(profile.language) ? profile.language : 'auto');
+    setUnits(getUnits(profile));
+  }, [profile]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidTimeZone(timeZone)) {
+      toast({ variant: 'destructive', title: 'Unknown time zone', description: 'Please use a zone such as America/New_York.' });
+      return;
+    }
+
+    const year = Number(birthYear);
+    const currentYear = new Date().getFullYear();
+    if (birthYear.trim() && !(Number.isInteger(year) && year >= 1900 && year <= currentYear)) {
+      toast({ variant: 'destructive', title: 'Unlikely birth year', description: `Please enter a year between 1900 and ${currentYear}.` });
+      return;
+    }
+
+    const fields: TablesUpdate<'profiles'> = {
+      timezone: timeZone,
+      sex: sex || null,
+      birth_year: birthYear.trim() ? year : null,
+      language: language === 'auto' ? null : language,
+      units,
+    };
+    for (const { column } of GOAL_FIELDS) {
+      const value = Number(goals[column]);
+      fields[column] = goals[column].trim() && value > 0 ? value : null;
+    }
+
+    setSaving(true);
+    const { error } = await updateProfile(fields);
+    setSaving(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Settings Error', description: error.message });
+    } else {
+      toast({ title: 'Preferences noted', description: 'Your targets have been entered into the ledger.' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-butler-parchment">
+        <div className="text-center">
+          <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Fetching your preferences...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-butler-parchment">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/')} className="hover-elevate">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Return to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-butler-heading text-2xl font-bold text-primary">Preferences</h1>
+            <p className="text-sm text-muted-foreground">How you wish your ledger to be kept</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <form onSubmit={handleSave} className="space-y-6">
+          <Card className="card-butler">
+            <CardHeader>
+              <CardTitle className="text-butler-heading">Daily Targets</CardTitle>
+              <CardDescription>
+                Leave a field blank if you would rather not track it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {GOAL_FIELDS.map(({ column, label, unit }) => (
+                <div key={column} className="space-y-2">
+                  <Label htmlFor={column} className="text-butler-body">{label} ({unit})</Label>
+                  <Input
+                    id={column}
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    value={goals[column]}
+                    onChange={(e) => setGoals({ ...goals, [column]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="card-butler">
+            <CardHeader>
+              <CardTitle className="text-butler-heading">About You</CardTitle>
+              <CardDescription>
+                Used to choose your recommended vitamin and mineral intakes. Leave blank for standard Daily Values.
+                Weigh-ins are shown in the units you choose.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sex" className="text-butler-body">Sex</Label>
+                <Select value={sex || 'unspecified'} onValueChange={(value) => setSex(value === 'unspecified' ? '' : value)}>
+                  <SelectTrigger id="sex">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unspecified">Prefer not to say</SelectItem>
+                    <SelectItem value="female">Female</SelectItem>
+                    <SelectItem value="male">Male</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="birth_year" className="text-butler-body">Birth year</Label>
+                <Input
+                  id="birth_year"
+                  type="number"
+                  inputMode="numeric"
+                  value={birthYear}
+                  onChange={(e) => setBirthYear(e.target.value)}
+                  placeholder="e.g., 1985"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="units" className="text-butler-body">Body measurements in</Label>
+                <Select value={units} onValueChange={(value) => setUnits(value === 'imperial' ? 'imperial' : 'metric')}>
+                  <SelectTrigger id="units">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="metric">Kilograms and centimetres</SelectItem>
+                    <SelectItem value="imperial">Pounds and inches</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="card-butler">
+            <CardHeader>
+              <CardTitle className="text-butler-heading">Time Zone</CardTitle>
+              <CardDescription>
+                Your days begin and end at midnight in this zone.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="timezone" className="text-butler-body">IANA time zone</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  id="timezone"
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                  placeholder="e.g., Europe/London"
+                  className="flex-1"
+                />
+                <Button type="button" variant="outline" onClick={() => setTimeZone(getBrowserTimeZone())}>
+                  Use this device's zone
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="card-butler">
+            <CardHeader>
+              <CardTitle className="text-butler-heading">Language</CardTitle>
+              <CardDescription>
+                The language you speak your meals in, and in which I shall address you.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="language" className="text-butler-body">Preferred language</Label>
+              <Select value={language} onValueChange={(value) => setLanguage(isLanguage(value) ? value : 'auto')}>
+                <SelectTrigger id="language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect automatically</SelectItem>
+                  {(Object.keys(LANGUAGES) as Language[]).map((code) => (
+                    <SelectItem key={code} value={code}>{LANGUAGES[code].native}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={saving} className="w-full btn-butler">
+            <Check className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Preferences'}
+          </Button>
+        </form>
+
+        <Card className="card-butler mt-6">
+          <CardHeader>
+            <CardTitle className="text-butler-heading">Your Data</CardTitle>
+            <CardDescription>
+              Take your meals elsewhere: spreadsheets for your dietitian, or a full copy for safekeeping.
+              Or bring in your history from another tracker.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => navigate('/export')} className="w-full sm:flex-1">
+              <Download className="w-4 h-4 mr-2" />
+              Export Meals
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/import')} className="w-full sm:flex-1">
+              <Upload className="w-4 h-4 mr-2" />
+              Import History
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default SettingsPage;
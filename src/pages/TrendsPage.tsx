@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import * as Recharts from 'recharts';
+import { ArrowLeft, TrendingDown, TrendingUp } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useBodyMetrics } from '@/hooks/useBodyMetrics';
+import { supabase } from '@/integrations/supabase/client';
+import { fromDateString, shiftDateString, todayInTimeZone } from '@/lib/dates';
+import { GOAL_FIELDS, GoalKey, getGoals } from '@/lib/goals';
+import {
+  KCAL_PER_KG,
+  METRIC_FIELDS,
+  MIN_LOGGED_DAYS,
+  MIN_SPAN_DAYS,
+  MIN_WEIGH_INS,
+  buildWeightSeries,
+  calorieTargetFor,
+  estimateEnergyBalance,
+  formatMetric,
+  getUnits,
+} from '@/lib/bodyMetrics';
+import {
+  DaySummary,
+  ROLLING_WINDOW,
+  TREND_RANGES,
+  TrendRange,
+  averageTotals,
+  buildTrendSeries,
+  compareWeekdayWeekend,
+  rankDays,
+  toDaySummary,
+} from '@/lib/trends';
+
+const formatDay = (date: string) => format(fromDateString(date), 'EEE, MMM d');
+
+// Weigh-ins this long before the range seed the smoothed trend
+const TREND_LEAD_DAYS = 60;
+
+// A modest weekly loss to suggest a target for: 0.5 kg, or 1 lb
+const SUGGESTED_LOSS_KG = { metric: 0.5, imperial: 0.45 };
+
+const TrendsPage = () => {
+  const { user } = useAuth();
+  const { profile, timeZone } = useProfile();
+  const navigate = useNavigate();
+  const [range, setRange] = useState<TrendRange>(30);
+  const [metric, setMetric] = useState<GoalKey>('calories');
+  const [summaries, setSummaries] = useState<DaySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const today = todayInTimeZone(timeZone);
+  const from = shiftDateString(today, -(range - 1));
+  const { metrics } = useBodyMetrics(shiftDateString(from, -TREND_LEAD_DAYS));
+
+  useEffect(() => {
+    const loadSummaries = async () => {
+      if (!user) return;
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('daily_nutrition')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('logged_date', from)
+          .lte('logged_date', today)
+          .order('logged_date', { ascending: true });
+
+        if (error) throw error;
+        setSummaries((data || []).map(toDaySummary));
+      } catch (error) {
+        console.error('Error loading trends:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSummaries();
+  }, [user, from, today]);
+
+  const goals = getGoals(profile);
+  const field = GOAL_FIELDS.find(({ key }) => key === metric)!;
+  const series = buildTrendSeries(summaries, metric, from, today);
+  const averages = averageTotals(summaries);
+  const comparison = compareWeekdayWeekend(summaries);
+  const ranked = rankDays(summaries, goals.calories);
+  const units = getUnits(profile);
+  const weightSeries = buildWeightSeries(metrics, from, today, units);
+  const balance = estimateEnergyBalance(metrics, summaries, from, today);
+  const latest = [...metrics].reverse();
+  const latestBodyFat = latest.find(metric => metric.body_fat_pct != null);
+  const latestWaist = latest.find(metric => metric.waist_cm != null);
+  const weightUnit = METRIC_FIELDS.weight_kg.unit(units);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-butler-parchment">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/')} className="hover-elevate">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Return to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-butler-heading text-2xl font-bold text-primary">Trends</h1>
+            <p className="text-sm text-muted-foreground">How your habits have fared over time</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+          <Tabs value={String(range)} onValueChange={(value) => setRange(Number(value) as TrendRange)}>
+            <TabsList>
+              {TREND_RANGES.map((days) => (
+                <TabsTrigger key={days} value={String(days)}>{days === 365 ? '1 year' : `${days} days`}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Tabs value={metric} onValueChange={(value) => setMetric(value as GoalKey)}>
+            <TabsList>
+              {GOAL_FIELDS.map(({ key, label }) => (
+                <TabsTrigger key={key} value={key}>{label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : summaries.length === 0 ? (
+          <Card className="card-butler">
+            <CardContent className="text-center py-8">
+              <p className="text-muted-foreground">Nothing was recorded in this period.</p>
+              <p className="text-sm text-muted-foreground mt-2">Log a few meals and I shall chart your progress.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="card-butler">
+              <CardHeader>
+                <CardTitle className="text-butler-heading">{field.label} per Day</CardTitle>
+                <CardDescription>
+                  Bars show each day; the line is a {ROLLING_WINDOW}-day rolling average of the days you logged.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <Recharts.ResponsiveContainer width="100%" height="100%">
+                    <Recharts.ComposedChart data={series}>
+                      <Recharts.CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <Recharts.XAxis
+                        dataKey="date"
+                        tickFormatter={(date: string) => format(fromDateString(date), range > 90 ? 'MMM' : 'MMM d')}
+                        minTickGap={24}
+                        fontSize={12}
+                      />
+                      <Recharts.YAxis fontSize={12} width={40} />
+                      <Recharts.Tooltip
+                        labelFormatter={(date: string) => formatDay(date)}
+                        formatter={(value: number, name: string) => [`${value} ${field.unit}`, name]}
+                      />
+                      <Recharts.Bar dataKey="value" name={field.label} fill="hsl(var(--primary))" fillOpacity={0.35} />
+                      <Recharts.Line
+                        dataKey="average"
+                        name={`${ROLLING_WINDOW}-day average`}
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                      {goals[metric] != null && (
+                        <Recharts.ReferenceLine y={goals[metric]!} stroke="hsl(var(--butler-gold))" strokeDasharray="4 4" label={{ value: 'Target', fontSize: 12 }} />
+                      )}
+                    </Recharts.ComposedChart>
+                  </Recharts.ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="card-butler">
+                <CardHeader>
+                  <CardTitle className="text-butler-heading">Weekdays and Weekends</CardTitle>
+                  <CardDescription>
+                    Daily averages over {summaries.length} logged day{summaries.length !== 1 ? 's' : ''}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left font-medium pb-2"></th>
+                        <th className="text-right font-medium pb-2">Overall</th>
+                        <th className="text-right font-medium pb-2">Weekdays ({comparison.weekday.days})</th>
+                        <th className="text-right font-medium pb-2">Weekends ({comparison.weekend.days})</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {GOAL_FIELDS.map(({ key, label, unit }) => (
+                        <tr key={key} className="border-t border-border/50">
+                          <td className="py-2 font-medium">{label}</td>
+                          {[averages, comparison.weekday.averages, comparison.weekend.averages].map((totals, index) => (
+                            <td key={index} className="py-2 text-right">
+                              {totals ? `${Math.round(totals[key])} ${unit}` : '—'}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+
+              {ranked && (
+                <Card className="card-butler">
+                  <CardHeader>
+                    <CardTitle className="text-butler-heading">Notable Days</CardTitle>
+                    <CardDescription>
+                      {goals.calories != null
+                        ? `Measured against your target of ${Math.round(goals.calories)} cal`
+                        : 'Set a calorie target in Preferences to judge days against it'}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {[
+                      { summary: ranked.best, label: goals.calories != null ? 'Closest to target' : 'Lightest day', icon: TrendingDown },
+                      { summary: ranked.worst, label: goals.calories != null ? 'Furthest from target' : 'Heaviest day', icon: TrendingUp },
+                    ].map(({ summary, label, icon: Icon }) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => navigate('/history', { state: { date: summary.date } })}
+                        className="w-full flex items-center justify-between gap-3 rounded-lg border border-border/50 p-3 text-left hover:bg-muted/50"
+                      >
+                        <div className="flex items-center gap-3">
+                          <Icon className="w-4 h-4 text-muted-foreground" />
+                          <div>
+                            <div className="text-sm font-medium">{label}</div>
+                            <div className="text-xs text-muted-foreground">{formatDay(summary.date)}</div>
+                          </div>
+                        </div>
+                        <div className="text-right text-sm">
+                          <div className="font-medium">{Math.round(summary.calories)} cal</div>
+                          <div className="text-xs text-muted-foreground">
+                            {summary.mealCount} meal{summary.mealCount !== 1 ? 's' : ''}
+                          </div>
+                        </div>
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="card-butler">
+            <CardHeader>
+              <CardTitle className="text-butler-heading">Weight</CardTitle>
+              <CardDescription>
+                Dots are weigh-ins; the line is the trend, which moves a tenth of the way towards each new reading.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {weightSeries.some(point => point.trend != null) ? (
+                <div className="h-64">
+                  <Recharts.ResponsiveContainer width="100%" height="100%">
+                    <Recharts.ComposedChart data={weightSeries}>
+                      <Recharts.CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <Recharts.XAxis
+                        dataKey="date"
+                        tickFormatter={(date: string) => format(fromDateString(date), range > 90 ? 'MMM' : 'MMM d')}
+                        minTickGap={24}
+                        fontSize={12}
+                      />
+                      <Recharts.YAxis fontSize={12} width={40} domain={['dataMin - 1', 'dataMax + 1']} tickFormatter={(value: number) => String(Math.round(value))} />
+                      <Recharts.Tooltip
+                        labelFormatter={(date: string) => formatDay(date)}
+                        formatter={(value: number, name: string) => [`${value} ${weightUnit}`, name]}
+                      />
+                      <Recharts.Line dataKey="weight" name="Weigh-in" stroke="none" dot={{ r: 3, fill: 'hsl(var(--primary))', fillOpacity: 0.5 }} isAnimationActive={false} />
+                      <Recharts.Line dataKey="trend" name="Trend" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} connectNulls />
+                    </Recharts.ComposedChart>
+                  </Recharts.ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-muted-foreground text-sm text-center py-8">
+                  No weigh-ins yet. Record one from the Dashboard and I shall chart it here.
+                </p>
+              )}
+              {(latestBodyFat || latestWaist) && (
+                <p className="text-xs text-muted-foreground">
+                  Latest: {[
+                    latestBodyFat && `body fat ${formatMetric('body_fat_pct', Number(latestBodyFat.body_fat_pct), units)} (${format(fromDateString(latestBodyFat.measured_date), 'MMM d')})`,
+                    latestWaist && `waist ${formatMetric('waist_cm', Number(latestWaist.waist_cm), units)} (${format(fromDateString(latestWaist.measured_date), 'MMM d')})`,
+                  ].filter(Boolean).join(', ')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="card-butler">
+            <CardHeader>
+              <CardTitle className="text-butler-heading">Energy Balance</CardTitle>
+              <CardDescription>
+                What you burn, reckoned from what you ate and what the scale did over this period
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {balance ? (
+                <>
+                  <div>
+                    <div className="text-3xl font-bold text-primary">{balance.tdee.toLocaleString()} cal</div>
+                    <div className="text-sm text-muted-foreground">Estimated daily expenditure</div>
+                  </div>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      <tr className="border-t border-border/50">
+                        <td className="py-2">Average intake</td>
+                        <td className="py-2 text-right">{balance.intake.toLocaleString()} cal over {balance.loggedDays} logged days</td>
+                      </tr>
+                      <tr className="border-t border-border/50">
+                        <td className="py-2">Weight trend</td>
+                        <td className="py-2 text-right">
+                          {balance.weeklyChangeKg > 0 ? '+' : balance.weeklyChangeKg < 0 ? '−' : ''}
+                          {formatMetric('weight_kg', Math.abs(balance.weeklyChangeKg), units)} a week
+                        </td>
+                      </tr>
+                      <tr className="border-t border-border/50">
+                        <td className="py-2">To hold steady</td>
+                        <td className="py-2 text-right">{balance.tdee.toLocaleString()} cal a day</td>
+                      </tr>
+                      <tr className="border-t border-border/50">
+                        <td className="py-2">To lose {formatMetric('weight_kg', SUGGESTED_LOSS_KG[units], units)} a week</td>
+                        <td className="py-2 text-right">{calorieTargetFor(balance, -SUGGESTED_LOSS_KG[units]).toLocaleString()} cal a day</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-muted-foreground">
+                    {goals.calories != null
+                      ? `At your target of ${Math.round(goals.calories).toLocaleString()} cal you would expect to ${goals.calories <= balance.tdee ? 'lose' : 'gain'} about ${formatMetric('weight_kg', Math.abs(((goals.calories - balance.tdee) * 7) / KCAL_PER_KG), units)} a week.`
+                      : 'Set a calorie target in Preferences to see what it should do for you.'}
+                    {' '}From {balance.weighIns} weigh-ins over {balance.spanDays} days; it firms up the more consistently you log.
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground text-sm text-center py-8">
+                  I need at least {MIN_WEIGH_INS} weigh-ins spanning {MIN_SPAN_DAYS} days, and {MIN_LOGGED_DAYS} days of logged meals between them. Try a longer period, or keep recording.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TrendsPage;
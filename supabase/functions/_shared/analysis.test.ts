@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+import { analyze } from "./analysis.ts";
+import { FakeAnalysis, FakeTranscription } from "./fakes.ts";
+import type { FoodMatch } from "./foods.ts";
+import type { AnalysisProvider, FoodLookup } from "./providers.ts";
+import type { RecipeMatch } from "./recipes.ts";
+
+// A model that always answers with the given JSON
+const answering = (json: unknown): AnalysisProvider => ({
+  completeJson: async () => (typeof json === "string" ? json : JSON.stringify(json)),
+});
+
+const food = (id: string, name: string, per100: Partial<FoodMatch> = {}): FoodMatch => ({
+  id,
+  source: "usda",
+  name,
+  brand: null,
+  calories: 52,
+  protein: 0.3,
+  carbs: 14,
+  fat: 0.2,
+  fiber: 2.4,
+  micronutrients: null,
+  serving_g: null,
+  serving_desc: null,
+  ...per100,
+});
+
+// A foods table that returns the same results, in order, for any query
+const searching = (results: FoodMatch[]): FoodLookup => ({ search: async (_query, limit) => results.slice(0, limit) });
+
+describe("analyze", () => {
+  it("itemises a fake transcript end to end", async () => {
+    const transcript = await new FakeTranscription().transcribe(new Blob());
+    const result = await analyze(new FakeAnalysis(), transcript);
+
+    expect(result).toEqual({
+      items: [
+        { qty: "1 serving", n: "two slices of toast", cal: 100, p: 5, c: 12, f: 3, fib: 1, conf: 0.9 },
+        { qty: "1 serving", n: "a banana", cal: 100, p: 5, c: 12, f: 3, fib: 1, conf: 0.9 },
+      ],
+    });
+  });
+
+  it("asks about items with vague amounts", async () => {
+    const transcript = await new FakeTranscription("some pasta, an apple and a little cheese").transcribe(new Blob());
+    const result = await analyze(new FakeAnalysis(), transcript);
+
+    expect(result.items.map((item) => item.conf)).toEqual([0.4, 0.9, 0.4]);
+    expect(result.questions).toEqual([
+      { item: 0, q: "How much pasta was it, roughly?" },
+      { item: 2, q: "How much cheese was it, roughly?" },
+    ]);
+  });
+
+  it("keeps only known keys with the right types", async () => {
+    const result = await analyze(answering({
+      items: [{
+        qty: "1 bowl",
+        n: "porridge",
+        cal: "300",
+        p: 10,
+        c: 54,
+        f: 5,
+        g: 0,
+        conf: 1.7,
+        en: "porridge",
+        r: "Porridge",
+        sv: 1,
+        brand: "Acme",
+      }],
+      totals: { cal: 300 },
+    }), "a bowl of porridge");
+
+    expect(result.items).toEqual([{ qty: "1 bowl", n: "porridge", p: 10, c: 54, f: 5, conf: 1 }]);
+  });
+
+  it("folds micronutrient aliases onto the registry keys", async () => {
+    const result = await analyze(answering({
+      items: [{ qty: "1 glass", n: "fortified milk", cal: 120, p: 8, c: 12, f: 5, vitc_mg: 1, vc_mg: 2, pot_mg: 380, vitd_iu: 100, xyz_mg: 4, CA_MG: 300 }],
+    }), "a glass of milk");
+
+    const [item] = result.items;
+    expect(item.vitc_mg).toBe(3);
+    expect(item.k_mg).toBe(380);
+    expect(item.vitd_mcg).toBe(2.5);
+    expect(item.ca_mg).toBe(300);
+    expect(item).not.toHaveProperty("vc_mg");
+    expect(item).not.toHaveProperty("pot_mg");
+    expect(item).not.toHaveProperty("xyz_mg");
+  });
+
+  it("corrects impossible numbers and says so", async () => {
+    const result = await analyze(answering({
+      items: [
+        { qty: "1 slice", n: "cheesecake", cal: 4200, p: 6, c: 30, f: 20, g: 120, conf: 0.8 },
+        { qty: "1 cup", n: "coffee", cal: 2, p: -1, c: 0, f: 0, conf: 0.9 },
+      ],
+    }), "a slice of cheesecake and a coffee");
+
+    expect(result.items[0].cal).toBe(324);
+    expect(result.items[1].p).toBe(0);
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ item: 0, field: "cal", corrected: 4200 }),
+      expect.objectContaining({ item: 1, field: "p", corrected: -1 }),
+    ]));
+  });
+
+  it("keeps only questions about items that exist, three at most", async () => {
+    const items = ["soup", "bread", "salad", "cake"].map((n) => ({ qty: "some", n, cal: 100, p: 5, c: 12, f: 3, conf: 0.4 }));
+    const result = await analyze(answering({
+      items,
+      questions: [
+        { item: 4, q: "And the fifth?" },
+        { item: 0, q: "  What kind of soup?  " },
+        { item: 1, q: "" },
+        { item: 1, q: "How many slices?" },
+        { item: 2, q: "Any dressing?" },
+        { item: 3, q: "How big a piece?" },
+      ],
+    }), "some soup, bread, salad and cake");
+
+    expect(result.questions).toEqual([
+      { item: 0, q: "What kind of soup?" },
+      { item: 1, q: "How many slices?" },
+      { item: 2, q: "Any dressing?" },
+    ]);
+  });
+
+  it("keeps the occasion and time hint when they are valid", async () => {
+    const result = await analyze(answering({
+      items: [],
+      meal_type: "Dinner",
+      when: { day_offset: -1, time: "19:30", occasion: "DINNER" },
+    }), "yesterday's dinner");
+
+    expect(result.meal_type).toBe("dinner");
+    expect(result.when).toEqual({ day_offset: -1, time: "19:30", occasion: "dinner" });
+  });
+
+  it("keeps relative times as minutes ago, in place of a day and time", async () => {
+    const result = await analyze(answering({
+      items: [],
+      when: { day_offset: -1, time: "12:00", minutes_ago: 179.6, occasion: "lunch" },
+    }), "lunch, three hours ago");
+
+    expect(result.when).toEqual({ day_offset: 0, minutes_ago: 180, occasion: "lunch" });
+  });
+
+  it("caps relative times at a week", async () => {
+    const result = await analyze(answering({ items: [], when: { day_offset: 0, minutes_ago: 60 * 24 * 30 } }), "a month ago");
+
+    expect(result.when).toEqual({ day_offset: 0, minutes_ago: 60 * 24 * 7 });
+  });
+
+  it("drops unusable time hints", async () => {
+    const result = await analyze(answering({
+      items: [],
+      meal_type: "brunch",
+      when: { day_offset: 0, time: "25:00", minutes_ago: -30 },
+    }), "just now");
+
+    expect(result).toEqual({ items: [] });
+  });
+
+  it("returns no items when the model does not answer in JSON", async () => {
+    expect(await analyze(answering("Certainly! Here is your meal."), "toast")).toEqual({ items: [] });
+  });
+
+  it("grounds items on a reference food with a close name", async () => {
+    const model = answering({ items: [{ qty: "1 medium", n: "manzana", en: "apple", g: 180, cal: 90, p: 0, c: 25, f: 0, conf: 0.9 }] });
+    const foods = searching([food("pie", "Apple pie, with caramel sauce", { calories: 265 }), food("apple", "Apples, raw, with skin")]);
+    const result = await analyze(model, "una manzana", foods);
+
+    expect(result.items).toEqual([
+      { qty: "1 medium", n: "manzana", g: 180, fid: "apple", cal: 93.6, p: 0.5, c: 25.2, f: 0.4, fib: 4.3, conf: 0.9 },
+    ]);
+  });
+
+  it("keeps the estimate when no result is close enough", async () => {
+    const estimate = { qty: "1 tsp", n: "chili flakes", g: 2, cal: 6, p: 0.2, c: 1, f: 0.3, conf: 0.9 };
+    const foods = searching([food("dish", "Chili con carne with beans and chili flakes, canned", { calories: 120 })]);
+    const result = await analyze(answering({ items: [estimate] }), "a pinch of chili flakes", foods);
+
+    expect(result.items).toEqual([estimate]);
+  });
+
+  describe("with the user's recipes", () => {
+    const chili: RecipeMatch = {
+      id: "chili",
+      name: "My Chili",
+      servings: 6,
+      serving_g: 350,
+      calories: 410,
+      protein: 28,
+      carbs: 35,
+      fat: 16,
+      fiber: 11,
+      micronutrients: null,
+    };
+
+    it("uses the recipe the model named", async () => {
+      const model = answering({ items: [{ qty: "2 bowls", n: "chili con carne", r: "my chili", sv: 2, cal: 600, p: 40, c: 50, f: 20, conf: 0.9 }] });
+      const result = await analyze(model, "two bowls of my chili", null, { recipes: [chili] });
+
+      expect(result.items).toEqual([
+        { qty: "2 bowls", n: "My Chili", rid: "chili", cal: 820, p: 56, c: 70, f: 32, fib: 22, g: 700, conf: 0.9 },
+      ]);
+    });
+
+    it("uses a recipe the item is named exactly after", async () => {
+      const model = answering({ items: [{ qty: "1 bowl", n: "Chili!", cal: 300, p: 20, c: 25, f: 12, conf: 0.9 }] });
+      const result = await analyze(model, "a bowl of chili", null, { recipes: [chili] });
+
+      expect(result.items[0]).toMatchObject({ n: "My Chili", rid: "chili", cal: 410 });
+    });
+
+    it("leaves items that only mention a recipe's name alone", async () => {
+      const estimate = { qty: "1 tsp", n: "chili flakes", cal: 6, p: 0.2, c: 1, f: 0.3, conf: 0.9 };
+      const result = await analyze(answering({ items: [estimate] }), "a pinch of chili flakes", null, { recipes: [chili] });
+
+      expect(result.items).toEqual([estimate]);
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import type { AnalysisProvider, FoodLookup, ImageInput } from "./providers.ts";
+import { FoodMatch, nameMatch, portionGrams, scaleFood } from "./foods.ts";
+import { MICRONUTRIENTS, normalizeMicronutrient } from "./micronutrients.ts";
+import { NutritionWarning, validateItems } from "./validation.ts";
+import { LANGUAGES, Language } from "./languages.ts";
+import { RecipeMatch, findRecipe, normalizeRecipeName, scaleRecipe, servingsEaten } from "./recipes.ts";
+
+// Known macro keys for validation/cleanup
+const KNOWN_KEYS = new Set(["qty", "n", "cal", "p", "c", "f", "fib", "g", "fid", "rid", "conf"]);
+
+const OCCASIONS = new Set(["breakfast", "lunch", "dinner", "snack"]);
+
+// How far back a spoken hint may reach ("last Monday" at most)
+const MAX_DAY_OFFSET = 7;
+const MAX_MINUTES_AGO = MAX_DAY_OFFSET * 24 * 60;
+
+// Reference foods considered per item, and how much of a food's name the item
+// must account for before its figures replace the model's ("chicken breast"
+// may become "Chicken, breast, roasted" but "apple" never "Apple pie")
+const GROUNDING_CANDIDATES = 5;
+const MIN_NAME_MATCH = 0.5;
+
+// Enough to settle a vague entry without turning it into an interview
+const MAX_QUESTIONS = 3;
+
+// Spoken time hint, resolved to a date and time on the client in the user's zone
+export interface TimeHint {
+  day_offset: number;
+  time?: string;
+  minutes_ago?: number; // "three hours ago"; replaces day_offset and time
+  occasion?: string;
+}
+
+function cleanTimeHint(value: unknown): TimeHint | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const when = value as Record<string, unknown>;
+
+  const hint: TimeHint = {
+    day_offset: Number.isInteger(when.day_offset) ? Math.max(-MAX_DAY_OFFSET, Math.min(0, when.day_offset as number)) : 0,
+  };
+  if (typeof when.time === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(when.time)) hint.time = when.time;
+  if (typeof when.minutes_ago === "number" && when.minutes_ago >= 1) {
+    hint.minutes_ago = Math.min(MAX_MINUTES_AGO, Math.round(when.minutes_ago));
+    hint.day_offset = 0;
+    delete hint.time;
+  }
+  if (typeof when.occasion === "string" && OCCASIONS.has(when.occasion.toLowerCase())) {
+    hint.occasion = when.occasion.toLowerCase();
+  }
+
+  // A bare "today" carries no information
+  if (hint.day_offset === 0 && !hint.time && !hint.minutes_ago && !hint.occasion) return undefined;
+  return hint;
+}
+
+// A follow-up about one item, answered by the user to refine it
+export interface ClarifyingQuestion {
+  item: number; // index into items
+  q: string;
+}
+
+function cleanQuestions(value: unknown, itemCount: number): ClarifyingQuestion[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is ClarifyingQuestion =>
+      !!entry && Number.isInteger(entry.item) && entry.item >= 0 && entry.item < itemCount &&
+      typeof entry.q === "string" && !!entry.q.trim())
+    .map(({ item, q }) => ({ item, q: q.trim() }))
+    .slice(0, MAX_QUESTIONS);
+}
+
+const MICRONUTRIENT_LIST = Object.entries(MICRONUTRIENTS)
+  .map(([key, { name }]) => `${key} (${name})`)
+  .join(", ");
+
+// Strict system prompt to ensure token-optimized schema and JSON-only output
+const SYSTEM_PROMPT = `You are Sir Dinewell's nutrition valet. Format user-described meals into a token-optimized JSON strictly matching this schema and rules:
+
+Return ONLY valid JSON (no explanations) with this root shape:
+{
+  "items": [
+    {
+      "qty": string,        // descriptive quantity like "2 slices" or "100g"
+      "n": string,          // descriptive name of the food item
+      "cal": number,        // total calories for the item
+      "p": number,          // grams of protein
+      "c": number,          // grams of carbohydrates
+      "f": number,          // grams of fat
+      "fib": number?,       // grams of fiber (optional)
+      "g": number?,         // estimated weight of the stated quantity in grams (optional)
+      "conf": number        // 0-1, how sure you are of both the food and the amount
+      // Micronutrients: add as top-level numeric keys on the item, using only the keys listed below.
+    }
+  ],
+  "meal_type": string,      // optional; "breakfast" | "lunch" | "dinner" | "snack"
+  "when": {                 // optional; only when the speaker says when they ate
+    "day_offset": number,   // 0 = today, -1 = yesterday, ... (never positive)
+    "time": string?,        // 24h "HH:MM" if a clock time is stated or clearly implied
+    "minutes_ago": number?, // for relative times instead of day_offset and time: "three hours ago" is 180, "half an hour ago" 30
+    "occasion": string?     // "breakfast" | "lunch" | "dinner" | "snack" if named
+  },
+  "questions": [            // optional; follow-ups for items you had to guess
+    { "item": number, "q": string }   // index into items, and one short question
+  ]
+}
+
+Rules:
+- Root must contain items (array) and may contain meal_type (string), when (object) and questions (array); no other keys.
+- Set meal_type when the speaker names the occasion or the foods make it obvious (e.g. "a handful of almonds" is a snack); omit it when unsure, the time of day will decide.
+- Only include when for explicit hints such as "for breakfast this morning" or "yesterday's dinner"; never infer it from the foods alone.
+- Do not include meal-level totals; only per-item values.
+- Give g whenever you can estimate the weight; it is used to look the food up in a nutrition database.
+- Give conf for every item: 0.9 or more when the food and amount are stated, about 0.5 when you had to guess the amount or kind ("some pasta"), lower when guessing the food itself.
+- For items with conf below 0.6, ask at most one short question each that would settle them (e.g. "Roughly how much pasta, and with what sauce?"); never ask about items you are sure of, and ask at most ${MAX_QUESTIONS} in all.
+- When a photo is attached, list each food you can see and judge portions from the plate, cutlery and packaging; use the description, if any, to name foods you cannot identify and to catch anything out of frame.
+- Include micronutrients when you can infer them, using exactly these keys (the suffix is the unit): ${MICRONUTRIENT_LIST}.
+- If information is missing, be conservative and omit fields instead of guessing wildly.
+- If nothing can be parsed, return {"items": []}.
+`;
+
+// Food names come back in the user's language. Keys, enum values and the
+// "en" lookup name stay English so grounding and the app can rely on them.
+function languageRules(language?: Language) {
+  if (language === "en") return "";
+  const target = language ? LANGUAGES[language].name : "the language the user spoke or wrote";
+  return `
+Language:
+- Write qty, n and questions in ${target}; JSON keys and the values of meal_type and occasion stay in English exactly as specified.
+- Unless that is English, also give each item "en": the food's name in English, used only to search the nutrition database.
+`;
+}
+
+// The user's recipes, listed so the model can name them instead of guessing
+// at homemade dishes. "r" and "sv" are dropped once the recipe is matched.
+function recipeRules(recipes: RecipeMatch[]) {
+  if (!recipes.length) return "";
+  const listed = recipes
+    .map((recipe) => {
+      const serving = recipe.servings != null
+        ? `1 serving${recipe.serving_g ? ` is about ${recipe.serving_g} g` : ""}`
+        : `weighed; 1 serving is ${recipe.serving_g} g`;
+      return `- ${JSON.stringify(recipe.name)} (${serving})`;
+    })
+    .join("\n");
+  return `
+The user's own recipes:
+${listed}
+- When an item is one of these (e.g. "a bowl of my chili"), also give "r": the recipe's name exactly as listed, and "sv": the number of servings eaten (a bowl, plate or portion is 1 unless the user says otherwise). Give g as well when you can estimate the weight.
+`;
+}
+
+export interface AnalyzeOptions {
+  images?: ImageInput[];
+  language?: Language; // omitted: follow the language of the description
+  recipes?: RecipeMatch[]; // the user's own, matched before the foods table
+}
+
+// Appended when the user answers follow-up questions about some items
+const CLARIFY_RULES = `
+You are now revising only the items listed below, using the user's answer to your questions.
+- Return items that replace exactly the listed ones, in the same schema; split one into several if the answer calls for it.
+- Raise conf to reflect what the answer settled, and only ask again if something important is still unknown.
+- Ignore foods in the original description that are not among the listed items; they are already recorded.
+`;
+
+type Item = Record<string, string | number>;
+
+export interface ClarifyRequest {
+  transcript: string; // the original description, for context
+  items: Item[]; // the items being revised
+  questions: string[]; // what was asked about them
+  answer: string;
+}
+
+export interface AnalysisOutput {
+  items: Item[];
+  meal_type?: string;
+  when?: TimeHint;
+  warnings?: NutritionWarning[];
+  questions?: ClarifyingQuestion[];
+}
+
+// Step 3a: the user's own recipe, by the name the model gave or an item
+// named exactly like one; "chili flakes" is not the user's "Chili". Matched
+// items carry the recipe's id in "rid".
+function groundRecipe(recipes: RecipeMatch[], item: Item): Item | null {
+  const named = typeof item.n === "string" ? normalizeRecipeName(item.n) : "";
+  const recipe = (typeof item.r === "string" && findRecipe(recipes, item.r)) ||
+    (named && recipes.find((candidate) => normalizeRecipeName(candidate.name) === named));
+  if (!recipe) return null;
+
+  const servings = servingsEaten(recipe, {
+    servings: typeof item.sv === "number" ? item.sv : undefined,
+    grams: typeof item.g === "number" ? item.g : undefined,
+  });
+  const grounded: Item = { qty: item.qty, n: recipe.name, rid: recipe.id, ...scaleRecipe(recipe, servings) };
+  if (typeof item.conf === "number") grounded.conf = item.conf;
+  return grounded;
+}
+
+// Step 3b: swap the model's numbers for reference data where the food is
+// known and its name is close enough to trust. Grounded items carry the
+// matched food's id in "fid"; the rest stay estimates.
+async function groundItem(foods: FoodLookup, item: Item): Promise<Item> {
+  if (typeof item.n !== "string" || !item.n.trim()) return item;
+  const query = typeof item.en === "string" && item.en.trim() ? item.en : item.n;
+  try {
+    // Closest name wins; ties keep the search's ranking
+    let match: FoodMatch | null = null;
+    let best = 0;
+    for (const food of await foods.search(query, GROUNDING_CANDIDATES)) {
+      const score = nameMatch(query, food);
+      if (score >= MIN_NAME_MATCH && score > best) {
+        match = food;
+        best = score;
+      }
+    }
+    if (!match) return item;
+
+    const grams = portionGrams(typeof item.g === "number" ? item.g : undefined, match);
+    const grounded: Item = { qty: item.qty, n: item.n, g: grams, fid: match.id, ...scaleFood(match, grams) };
+    if (typeof item.conf === "number") grounded.conf = item.conf;
+    return grounded;
+  } catch (error) {
+    console.warn("Food lookup failed, keeping estimate:", error);
+    return item;
+  }
+}
+
+// Step 2: Analysis & Structuring with the configured chat model
+export async function analyze(
+  llm: AnalysisProvider,
+  transcribedText: string,
+  foods: FoodLookup | null = null,
+  { images = [], language, recipes = [] }: AnalyzeOptions = {},
+) {
+  const userPrompt = images.length
+    ? `Photo of the meal attached. The user's description (may be empty):\n\n${transcribedText}`
+    : `Transcribed meal description:\n\n${transcribedText}`;
+
+  const systemPrompt = SYSTEM_PROMPT + languageRules(language) + recipeRules(recipes);
+  return structure(await llm.completeJson(systemPrompt, userPrompt, images), foods, recipes);
+}
+
+// Re-analysis of just the items the user was asked about, given their answer.
+// The answer comes last so it is what the fake provider itemises.
+export async function clarify(
+  llm: AnalysisProvider,
+  request: ClarifyRequest,
+  foods: FoodLookup | null = null,
+  { language, recipes = [] }: Pick<AnalyzeOptions, "language" | "recipes"> = {},
+) {
+  const userPrompt = [
+    `Original meal description:\n${request.transcript}`,
+    `Items to revise:\n${JSON.stringify(request.items)}`,
+    `Questions asked:\n${request.questions.map((q) => `- ${q}`).join("\n")}`,
+    `The user's answer:\n\n${request.answer}`,
+  ].join("\n\n");
+
+  const systemPrompt = SYSTEM_PROMPT + languageRules(language) + recipeRules(recipes) + CLARIFY_RULES;
+  return structure(await llm.completeJson(systemPrompt, userPrompt), foods, recipes);
+}
+
+// Validate the model's JSON, ground it and check the numbers
+async function structure(raw: string, foods: FoodLookup | null, recipes: RecipeMatch[]): Promise<AnalysisOutput> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // Fallback: return empty structure if model failed JSON
+    parsed = { items: [] };
+  }
+
+  // Validate & clean the structure to match the exact spec
+  const items = Array.isArray(parsed.items)
+    ? parsed.items.map((item: any) => {
+        const cleaned: Record<string, string | number> = {};
+        // Copy known keys with correct types if possible
+        if (typeof item.qty === "string") cleaned.qty = item.qty;
+        if (typeof item.n === "string") cleaned.n = item.n;
+        if (typeof item.cal === "number") cleaned.cal = item.cal;
+        if (typeof item.p === "number") cleaned.p = item.p;
+        if (typeof item.c === "number") cleaned.c = item.c;
+        if (typeof item.f === "number") cleaned.f = item.f;
+        if (typeof item.fib === "number") cleaned.fib = item.fib;
+        if (typeof item.g === "number" && item.g > 0) cleaned.g = item.g;
+        if (typeof item.en === "string") cleaned.en = item.en;
+        if (typeof item.r === "string") cleaned.r = item.r;
+        if (typeof item.sv === "number" && item.sv > 0) cleaned.sv = item.sv;
+        if (typeof item.conf === "number") cleaned.conf = Math.round(Math.min(1, Math.max(0, item.conf)) * 100) / 100;
+
+        // Keep registry micronutrients only, folding aliases onto canonical keys
+        for (const [k, v] of Object.entries(item)) {
+          if (KNOWN_KEYS.has(k) || typeof v !== "number") continue;
+          const normalized = normalizeMicronutrient(k, v);
+          if (normalized) {
+            const [key, amount] = normalized;
+            cleaned[key] = (Number(cleaned[key]) || 0) + amount;
+          }
+        }
+        return cleaned;
+      })
+    : [];
+
+  const grounded: Item[] = await Promise.all(
+    items.map((item: Item) => groundRecipe(recipes, item) ?? (foods ? groundItem(foods, item) : item)),
+  );
+  // The English name and recipe hints were only for the lookups
+  grounded.forEach((item) => {
+    delete item.en;
+    delete item.r;
+    delete item.sv;
+  });
+
+  // Step 4: correct impossible numbers and flag doubtful ones for the user
+  const { items: validated, warnings } = validateItems<Item>(grounded);
+
+  const result: AnalysisOutput = { items: validated };
+  if (warnings.length) result.warnings = warnings;
+  const questions = cleanQuestions(parsed.questions, validated.length);
+  if (questions.length) result.questions = questions;
+  if (typeof parsed.meal_type === "string" && OCCASIONS.has(parsed.meal_type.toLowerCase())) {
+    result.meal_type = parsed.meal_type.toLowerCase();
+  }
+  const when = cleanTimeHint(parsed.when);
+  if (when) result.when = when;
+  return result;
+}
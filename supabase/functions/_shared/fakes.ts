@@ -0,0 +1,37 @@
+// Deterministic providers for local runs, CI and tests: no network, no keys.
+
+import type { AnalysisProvider, ImageInput, TranscriptionProvider } from "./providers.ts";
+
+// Heard in every recording unless the FAKE_TRANSCRIPT variable says otherwise
+export const FAKE_TRANSCRIPT = "two slices of toast and a banana";
+
+export class FakeTranscription implements TranscriptionProvider {
+  constructor(private transcript = FAKE_TRANSCRIPT) {}
+
+  async transcribe(_file: Blob) {
+    return this.transcript;
+  }
+}
+
+// What the fake provider "sees" in a photo that comes without a description
+export const FAKE_PHOTO_DESCRIPTION = "a plate of pasta and a side salad";
+
+const VAGUE_AMOUNT = /^(some|a bit of|a little)\s+/i;
+
+// Each comma/"and"-separated phrase becomes one item with fixed macros
+export class FakeAnalysis implements AnalysisProvider {
+  async completeJson(_systemPrompt: string, userPrompt: string, images: ImageInput[] = []) {
+    const described = userPrompt.split("\n\n").pop() || "";
+    const text = images.length && !described.trim() ? FAKE_PHOTO_DESCRIPTION : described;
+    const items = text
+      .split(/,|\band\b/i)
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((n) => ({ qty: "1 serving", n, cal: 100, p: 5, c: 12, f: 3, fib: 1, conf: VAGUE_AMOUNT.test(n) ? 0.4 : 0.9 }));
+    // Vague amounts ("some pasta") get a follow-up, so the dialog can be exercised offline
+    const questions = items
+      .map((item, index) => ({ item: index, q: `How much ${item.n.replace(VAGUE_AMOUNT, "")} was it, roughly?` }))
+      .filter((_, index) => items[index].conf < 0.6);
+    return JSON.stringify({ items, questions });
+  }
+}
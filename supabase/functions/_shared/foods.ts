@@ -0,0 +1,64 @@
+// Reference foods and portion scaling, shared by the analyzer (grounding)
+// and the web app (swapping an item's food).
+
+// A row from the search_foods RPC; nutrient amounts are per 100 g
+export interface FoodMatch {
+  id: string;
+  source: string;
+  name: string;
+  brand: string | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  micronutrients: Record<string, number> | null;
+  serving_g: number | null;
+  serving_desc: string | null;
+}
+
+export const foodLabel = (food: Pick<FoodMatch, "name" | "brand">) =>
+  food.brand ? `${food.name} (${food.brand})` : food.name;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Nutrient keys of a TokenItem for `grams` of the food
+export function scaleFood(food: FoodMatch, grams: number): Record<string, number> {
+  const factor = grams / 100;
+  const scaled: Record<string, number> = {};
+  const macros: [string, number | null][] = [
+    ["cal", food.calories],
+    ["p", food.protein],
+    ["c", food.carbs],
+    ["f", food.fat],
+    ["fib", food.fiber],
+  ];
+  for (const [key, per100] of macros) {
+    if (per100 != null) scaled[key] = round1(Number(per100) * factor);
+  }
+  for (const [key, per100] of Object.entries(food.micronutrients || {})) {
+    if (typeof per100 === "number") scaled[key] = round1(per100 * factor);
+  }
+  return scaled;
+}
+
+// Weight to scale by: the analyzer's estimate, else one serving, else 100 g
+export const portionGrams = (estimate: number | undefined, food: FoodMatch) =>
+  estimate && estimate > 0 ? estimate : Number(food.serving_g) || 100;
+
+// Descriptors reference names add that say nothing about which food it is
+const FILLER_WORDS = new Set(["raw", "fresh", "plain", "nfs", "ns", "with", "and", "or", "of", "in", "the", "a"]);
+
+const nameWords = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word && !FILLER_WORDS.has(word) && !/^\d+$/.test(word));
+
+// Share of the food's name (brand aside) that the query accounts for, 0-1.
+// search_foods only promises every query word is in there somewhere, so
+// "apple" also finds "Apple pie with caramel sauce"; this tells them apart.
+export function nameMatch(query: string, food: Pick<FoodMatch, "name">) {
+  const queryWords = nameWords(query);
+  const foodWords = nameWords(food.name);
+  if (!foodWords.length) return 0;
+  const covered = foodWords.filter((word) => queryWords.some((q) => word.startsWith(q) || q.startsWith(word)));
+  return covered.length / foodWords.length;
+}
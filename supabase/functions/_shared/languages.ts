@@ -0,0 +1,19 @@
+// Languages a user can log meals in, shared by the analyzer (speech hint and
+// the language food names come back in) and the web app (settings and UI
+// translations).
+
+export type Language = "en" | "es" | "de";
+
+export interface LanguageInfo {
+  name: string; // in English, for prompts
+  native: string; // as its speakers write it, for pickers
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { name: "English", native: "English" },
+  es: { name: "Spanish", native: "Español" },
+  de: { name: "German", native: "Deutsch" },
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
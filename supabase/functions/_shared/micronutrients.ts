@@ -0,0 +1,76 @@
+// Canonical micronutrient registry, shared by the analyzer (which keys it may
+// emit) and the web app (labels, units, daily targets).
+//
+// Targets are US Dietary Reference Intakes for ages 14+: the RDA where one
+// exists, otherwise the AI; sodium and cholesterol are upper limits. Each
+// list is [minimum age, amount], the last matching row wins. `dv` is the FDA
+// Daily Value, used when we don't know the user's sex.
+
+export type MicronutrientUnit = "mg" | "mcg" | "g";
+
+export interface MicronutrientInfo {
+  name: string;
+  unit: MicronutrientUnit;
+  dv: number;
+  male: [number, number][];
+  female: [number, number][];
+  limit?: boolean; // a ceiling to stay under rather than a target to reach
+}
+
+export const MICRONUTRIENTS: Record<string, MicronutrientInfo> = {
+  vita_mcg: { name: "Vitamin A", unit: "mcg", dv: 900, male: [[14, 900]], female: [[14, 700]] },
+  vitc_mg: { name: "Vitamin C", unit: "mg", dv: 90, male: [[14, 75], [19, 90]], female: [[14, 65], [19, 75]] },
+  vitd_mcg: { name: "Vitamin D", unit: "mcg", dv: 20, male: [[14, 15], [71, 20]], female: [[14, 15], [71, 20]] },
+  vite_mg: { name: "Vitamin E", unit: "mg", dv: 15, male: [[14, 15]], female: [[14, 15]] },
+  vitk_mcg: { name: "Vitamin K", unit: "mcg", dv: 120, male: [[14, 75], [19, 120]], female: [[14, 75], [19, 90]] },
+  b1_mg: { name: "Thiamin (B1)", unit: "mg", dv: 1.2, male: [[14, 1.2]], female: [[14, 1.0], [19, 1.1]] },
+  b2_mg: { name: "Riboflavin (B2)", unit: "mg", dv: 1.3, male: [[14, 1.3]], female: [[14, 1.0], [19, 1.1]] },
+  b3_mg: { name: "Niacin (B3)", unit: "mg", dv: 16, male: [[14, 16]], female: [[14, 14]] },
+  b6_mg: { name: "Vitamin B6", unit: "mg", dv: 1.7, male: [[14, 1.3], [51, 1.7]], female: [[14, 1.2], [19, 1.3], [51, 1.5]] },
+  b12_mcg: { name: "Vitamin B12", unit: "mcg", dv: 2.4, male: [[14, 2.4]], female: [[14, 2.4]] },
+  fol_mcg: { name: "Folate", unit: "mcg", dv: 400, male: [[14, 400]], female: [[14, 400]] },
+  ca_mg: { name: "Calcium", unit: "mg", dv: 1300, male: [[14, 1300], [19, 1000], [71, 1200]], female: [[14, 1300], [19, 1000], [51, 1200]] },
+  fe_mg: { name: "Iron", unit: "mg", dv: 18, male: [[14, 11], [19, 8]], female: [[14, 15], [19, 18], [51, 8]] },
+  mg_mg: { name: "Magnesium", unit: "mg", dv: 420, male: [[14, 410], [19, 400], [31, 420]], female: [[14, 360], [19, 310], [31, 320]] },
+  p_mg: { name: "Phosphorus", unit: "mg", dv: 1250, male: [[14, 1250], [19, 700]], female: [[14, 1250], [19, 700]] },
+  k_mg: { name: "Potassium", unit: "mg", dv: 4700, male: [[14, 3000], [19, 3400]], female: [[14, 2300], [19, 2600]] },
+  zn_mg: { name: "Zinc", unit: "mg", dv: 11, male: [[14, 11]], female: [[14, 9], [19, 8]] },
+  se_mcg: { name: "Selenium", unit: "mcg", dv: 55, male: [[14, 55]], female: [[14, 55]] },
+  na_mg: { name: "Sodium", unit: "mg", dv: 2300, male: [[14, 2300]], female: [[14, 2300]], limit: true },
+  chol_mg: { name: "Cholesterol", unit: "mg", dv: 300, male: [[14, 300]], female: [[14, 300]], limit: true },
+};
+
+// Spellings models tend to produce instead of the canonical keys
+export const MICRONUTRIENT_ALIASES: Record<string, string> = {
+  va_mcg: "vita_mcg",
+  vc_mg: "vitc_mg",
+  vd_mcg: "vitd_mcg",
+  ve_mg: "vite_mg",
+  vk_mcg: "vitk_mcg",
+  thi_mg: "b1_mg",
+  rib_mg: "b2_mg",
+  nia_mg: "b3_mg",
+  fa_mcg: "fol_mcg",
+  fola_mcg: "fol_mcg",
+  magn_mg: "mg_mg",
+  pot_mg: "k_mg",
+  sod_mg: "na_mg",
+};
+
+// Vitamin D is often quoted in IU; 40 IU = 1 mcg
+const IU_CONVERSIONS: Record<string, [string, number]> = {
+  vitd_iu: ["vitd_mcg", 1 / 40],
+  vd_iu: ["vitd_mcg", 1 / 40],
+};
+
+// Canonical key and amount for whatever the model produced, or null if unknown
+export function normalizeMicronutrient(key: string, value: number): [string, number] | null {
+  const lower = key.toLowerCase();
+  if (MICRONUTRIENTS[lower]) return [lower, value];
+  if (MICRONUTRIENT_ALIASES[lower]) return [MICRONUTRIENT_ALIASES[lower], value];
+  if (IU_CONVERSIONS[lower]) {
+    const [canonical, factor] = IU_CONVERSIONS[lower];
+    return [canonical, Math.round(value * factor * 100) / 100];
+  }
+  return null;
+}
@@ -0,0 +1,209 @@
+import OpenAI from "https://esm.sh/openai@4.20.1";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import type { FoodMatch } from "./foods.ts";
+import type { Language } from "./languages.ts";
+import type { RecipeMatch } from "./recipes.ts";
+import { FAKE_TRANSCRIPT, FakeAnalysis, FakeTranscription } from "./fakes.ts";
+
+// Speech-to-text step; without a language the provider detects it
+export interface TranscriptionProvider {
+  transcribe(file: Blob, language?: Language): Promise<string>;
+}
+
+// A photo sent along with the prompt, base64-encoded
+export interface ImageInput {
+  data: string;
+  mimeType: string;
+}
+
+// Structuring step: returns the model's raw JSON text for the given prompts.
+// Images require a vision-capable model.
+export interface AnalysisProvider {
+  completeJson(systemPrompt: string, userPrompt: string, images?: ImageInput[]): Promise<string>;
+}
+
+// Reference food lookup used to ground the model's estimates
+export interface FoodLookup {
+  search(query: string, limit: number): Promise<FoodMatch[]>;
+}
+
+// Works against api.openai.com or any server exposing the same routes
+// (e.g. a self-hosted whisper.cpp / llama.cpp / vLLM endpoint)
+class OpenAICompatibleTranscription implements TranscriptionProvider {
+  constructor(private client: OpenAI, private model: string) {}
+
+  async transcribe(file: Blob, language?: Language) {
+    const audioFile = new File([file], "audio.webm", { type: "audio/webm" });
+
+    const transcription = await this.client.audio.transcriptions.create({
+      file: audioFile,
+      model: this.model,
+      ...(language ? { language } : {}),
+    });
+
+    return (transcription as { text?: string }).text || "";
+  }
+}
+
+class OpenAICompatibleAnalysis implements AnalysisProvider {
+  constructor(private client: OpenAI, private model: string) {}
+
+  async completeJson(systemPrompt: string, userPrompt: string, images: ImageInput[] = []) {
+    const userContent = images.length
+      ? [
+          { type: "text" as const, text: userPrompt },
+          ...images.map((image) => ({
+            type: "image_url" as const,
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+        ]
+      : userPrompt;
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      // Enforce JSON output
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userContent },
+      ],
+      temperature: 0.2,
+    });
+
+    return completion.choices?.[0]?.message?.content || "{" + '"items"' + ": []}";
+  }
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+};
+
+const openAIClient = () => new OpenAI({ apiKey: requireEnv("OPENAI_API_KEY") });
+
+// Local servers usually ignore the key, but the SDK insists on one.
+// Speech and chat may be served separately; both fall back to LOCAL_BASE_URL.
+const localClient = (baseUrlEnv: string) =>
+  new OpenAI({
+    apiKey: Deno.env.get("LOCAL_API_KEY") || "local",
+    baseURL: Deno.env.get(baseUrlEnv) || requireEnv("LOCAL_BASE_URL"),
+  });
+
+// TRANSCRIPTION_PROVIDER: openai (default) | local | fake
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const name = Deno.env.get("TRANSCRIPTION_PROVIDER") || "openai";
+  switch (name) {
+    case "openai":
+      return new OpenAICompatibleTranscription(openAIClient(), "whisper-1");
+    case "local":
+      return new OpenAICompatibleTranscription(localClient("LOCAL_TRANSCRIPTION_BASE_URL"), Deno.env.get("LOCAL_TRANSCRIPTION_MODEL") || "whisper-1");
+    case "fake":
+      return new FakeTranscription(Deno.env.get("FAKE_TRANSCRIPT") || FAKE_TRANSCRIPT);
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${name}`);
+  }
+}
+
+// ANALYSIS_PROVIDER: openai (default) | local | fake
+export function getAnalysisProvider(): AnalysisProvider {
+  const name = Deno.env.get("ANALYSIS_PROVIDER") || "openai";
+  switch (name) {
+    case "openai":
+      return new OpenAICompatibleAnalysis(openAIClient(), "gpt-4o");
+    case "local":
+      return new OpenAICompatibleAnalysis(localClient("LOCAL_ANALYSIS_BASE_URL"), requireEnv("LOCAL_ANALYSIS_MODEL"));
+    case "fake":
+      return new FakeAnalysis();
+    default:
+      throw new Error(`Unknown ANALYSIS_PROVIDER: ${name}`);
+  }
+}
+
+// VISION_PROVIDER: same values as ANALYSIS_PROVIDER, which it defaults to.
+// Used for photos, so the model must accept images.
+export function getVisionProvider(): AnalysisProvider {
+  const name = Deno.env.get("VISION_PROVIDER") || Deno.env.get("ANALYSIS_PROVIDER") || "openai";
+  switch (name) {
+    case "openai":
+      return new OpenAICompatibleAnalysis(openAIClient(), "gpt-4o");
+    case "local":
+      return new OpenAICompatibleAnalysis(
+        localClient("LOCAL_ANALYSIS_BASE_URL"),
+        Deno.env.get("LOCAL_VISION_MODEL") || requireEnv("LOCAL_ANALYSIS_MODEL"),
+      );
+    case "fake":
+      return new FakeAnalysis();
+    default:
+      throw new Error(`Unknown VISION_PROVIDER: ${name}`);
+  }
+}
+
+// The caller's token, or null for signed-out requests
+const bearerToken = (req: Request) => {
+  const authorization = req.headers.get("Authorization") || "";
+  return authorization.startsWith("Bearer ") && authorization !== "Bearer " ? authorization : null;
+};
+
+// A client that acts as the caller, so row-level security applies
+const userClient = (authorization: string) =>
+  createClient(requireEnv("SUPABASE_URL"), requireEnv("SUPABASE_ANON_KEY"), {
+    global: { headers: { Authorization: authorization } },
+  });
+
+// The foods table is readable by signed-in users only, and search_foods runs
+// with the caller's rights, so lookups must carry the caller's token
+class SupabaseFoodLookup implements FoodLookup {
+  private client;
+
+  constructor(authorization: string) {
+    this.client = userClient(authorization);
+  }
+
+  async search(query: string, limit: number) {
+    const { data, error } = await this.client.rpc("search_foods", { search_text: query, max_results: limit });
+    if (error) throw error;
+    return (data || []) as FoodMatch[];
+  }
+}
+
+// FOOD_LOOKUP: supabase (default) | off. Returns null when grounding is off
+// or the caller is signed out, who could not read the foods table anyway.
+export function getFoodLookup(req: Request): FoodLookup | null {
+  const name = Deno.env.get("FOOD_LOOKUP") || "supabase";
+  switch (name) {
+    case "supabase": {
+      const authorization = bearerToken(req);
+      return authorization ? new SupabaseFoodLookup(authorization) : null;
+    }
+    case "off":
+      return null;
+    default:
+      throw new Error(`Unknown FOOD_LOOKUP: ${name}`);
+  }
+}
+
+// Enough for anyone's repertoire without bloating the prompt
+const MAX_RECIPES = 100;
+
+// The caller's own recipes, read with their token so row-level security
+// applies. Signed-out callers and lookup failures just get none.
+export async function getUserRecipes(req: Request): Promise<RecipeMatch[]> {
+  const authorization = bearerToken(req);
+  if (!authorization) return [];
+
+  try {
+    const { data, error } = await userClient(authorization)
+      .from("recipes")
+      .select("id, name, servings, serving_g, calories, protein, carbs, fat, fiber, micronutrients")
+      .order("updated_at", { ascending: false })
+      .limit(MAX_RECIPES);
+    if (error) throw error;
+    return (data || []) as RecipeMatch[];
+  } catch (error) {
+    console.warn("Recipe lookup failed, matching foods only:", error);
+    return [];
+  }
+}
@@ -0,0 +1,140 @@
+// The user's own recipes, shared by the analyzer (matching "a bowl of my
+// chili") and the web app (composing and logging them).
+
+// The columns of a recipes row the analyzer needs; nutrients are per serving
+export interface RecipeMatch {
+  id: string;
+  name: string;
+  servings: number | null;
+  serving_g: number | null;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+  micronutrients: Record<string, number> | null;
+}
+
+export interface RecipeYield {
+  servings: number | null; // how many portions the batch makes
+  total_grams: number | null; // cooked weight of the whole batch
+}
+
+// Per-serving figures stored on the recipe row
+export interface ServingNutrition {
+  serving_g: number | null;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  micronutrients: Record<string, number>;
+}
+
+type Ingredient = Record<string, string | number | undefined>;
+
+// Macro and bookkeeping keys; everything else numeric on an ingredient is a micronutrient
+const KNOWN_KEYS = new Set(["qty", "n", "cal", "p", "c", "f", "fib", "g", "fid", "rid", "conf"]);
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const positive = (value: number | null | undefined) => (typeof value === "number" && value > 0 ? value : null);
+
+// A recipe counted only by weight is logged in 100 g servings
+export const WEIGHT_SERVING_G = 100;
+
+// How many servings the batch divides into
+export function servingCount({ servings, total_grams }: RecipeYield) {
+  const count = positive(servings);
+  if (count) return count;
+  const grams = positive(total_grams);
+  return grams ? grams / WEIGHT_SERVING_G : null;
+}
+
+// Whole-batch totals divided by the yield; null when no yield is given
+export function servingNutrition(ingredients: Ingredient[], recipeYield: RecipeYield): ServingNutrition | null {
+  const count = servingCount(recipeYield);
+  if (!count) return null;
+
+  const totals = { cal: 0, p: 0, c: 0, f: 0, fib: 0 };
+  const micronutrients: Record<string, number> = {};
+  for (const item of ingredients) {
+    for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+      totals[key] += Number(item[key]) || 0;
+    }
+    for (const [key, value] of Object.entries(item)) {
+      if (!KNOWN_KEYS.has(key) && typeof value === "number") micronutrients[key] = (micronutrients[key] || 0) + value;
+    }
+  }
+
+  const grams = positive(recipeYield.total_grams);
+  return {
+    serving_g: grams ? round1(grams / count) : null,
+    calories: round1(totals.cal / count),
+    protein: round1(totals.p / count),
+    carbs: round1(totals.c / count),
+    fat: round1(totals.f / count),
+    fiber: round1(totals.fib / count),
+    micronutrients: Object.fromEntries(Object.entries(micronutrients).map(([key, value]) => [key, round1(value / count)])),
+  };
+}
+
+// Nutrient keys of a TokenItem for `servings` portions of the recipe
+export function scaleRecipe(recipe: RecipeMatch, servings: number): Record<string, number> {
+  const scaled: Record<string, number> = {};
+  const macros: [string, number | null][] = [
+    ["cal", recipe.calories],
+    ["p", recipe.protein],
+    ["c", recipe.carbs],
+    ["f", recipe.fat],
+    ["fib", recipe.fiber],
+  ];
+  for (const [key, perServing] of macros) {
+    if (perServing != null) scaled[key] = round1(Number(perServing) * servings);
+  }
+  for (const [key, perServing] of Object.entries(recipe.micronutrients || {})) {
+    if (typeof perServing === "number") scaled[key] = round1(perServing * servings);
+  }
+  const grams = positive(Number(recipe.serving_g));
+  if (grams) scaled.g = round1(grams * servings);
+  return scaled;
+}
+
+// Portions eaten: the stated count for recipes made in servings, otherwise
+// the estimated weight over the serving weight, otherwise one
+export function servingsEaten(recipe: RecipeMatch, estimate: { servings?: number; grams?: number }) {
+  const servings = positive(estimate.servings);
+  if (servings && recipe.servings != null) return servings;
+  const grams = positive(estimate.grams);
+  const servingGrams = positive(Number(recipe.serving_g));
+  if (grams && servingGrams) return grams / servingGrams;
+  return servings ?? 1;
+}
+
+// "My Chili!" and "mi chili" both come down to "chili"
+export const normalizeRecipeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^(?:my|mi|mis|mein|meine|meinen|meinem|meiner) /, "");
+
+// The recipe an item names: an exact match on the name, else the longest
+// recipe name found as whole words within it ("a bowl of my chili")
+export function findRecipe<T extends Pick<RecipeMatch, "name">>(recipes: T[], name: string): T | undefined {
+  const wanted = normalizeRecipeName(name);
+  if (!wanted) return undefined;
+
+  let best: T | undefined;
+  let bestLength = 0;
+  for (const recipe of recipes) {
+    const candidate = normalizeRecipeName(recipe.name);
+    if (!candidate) continue;
+    if (candidate === wanted) return recipe;
+    if (` ${wanted} `.includes(` ${candidate} `) && candidate.length > bestLength) {
+      best = recipe;
+      bestLength = candidate.length;
+    }
+  }
+  return best;
+}
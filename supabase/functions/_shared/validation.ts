@@ -0,0 +1,140 @@
+// Plausibility checks for analyzed items, shared by the analyzer (which
+// corrects what it safely can) and the web app (which highlights what's left
+// while the user edits).
+
+import { MICRONUTRIENTS } from "./micronutrients.ts";
+
+export interface NutritionWarning {
+  item: number; // index into items
+  field: string; // item key the warning is about
+  message: string;
+  corrected?: number; // the original value, when it was replaced
+}
+
+type Item = Record<string, string | number | undefined>;
+
+// Atwater factors; fiber is left out as it contributes little
+const KCAL_PER_GRAM = { p: 4, c: 4, f: 9 };
+
+// Pure fat is 9 kcal/g, so nothing on a plate can be denser
+const MAX_KCAL_PER_GRAM = 9;
+
+// Beyond a large pizza or a family-size dessert eaten whole
+const MAX_ITEM_CALORIES = 3000;
+const MAX_ITEM_MACRO_GRAMS = 300;
+
+// Stated calories vs what the macros add up to. Below the tolerance is
+// always suspect; above it only when no alcohol (7 kcal/g, not a macro)
+// could explain the difference.
+const CALORIE_TOLERANCE = 0.25;
+const MIN_CALORIE_GAP = 40;
+const ALCOHOL_PATTERN = /\b(beer|lager|ale|stout|cider|wine|champagne|prosecco|sake|vodka|gin|rum|whisk(e)?y|bourbon|tequila|brandy|cognac|liqueur|cocktail|margarita|mojito|spritz)\b/i;
+
+// A single item supplying this many times the daily value is almost
+// certainly a unit mix-up (mg reported as mcg)
+const MAX_DAILY_VALUE_MULTIPLE = 15;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const num = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined);
+
+// Calories implied by the macros, or undefined unless all three are given
+export const macroCalories = (item: Item) => {
+  const p = num(item.p);
+  const c = num(item.c);
+  const f = num(item.f);
+  if (p === undefined || c === undefined || f === undefined) return undefined;
+  return p * KCAL_PER_GRAM.p + c * KCAL_PER_GRAM.c + f * KCAL_PER_GRAM.f;
+};
+
+const label = (item: Item) => (typeof item.n === "string" && item.n.trim() ? item.n.trim() : "this item");
+
+// Warnings for an item as it stands; nothing is changed
+export function checkItem(item: Item, index: number): NutritionWarning[] {
+  const warnings: NutritionWarning[] = [];
+  const warn = (field: string, message: string) => warnings.push({ item: index, field, message });
+  const name = label(item);
+
+  for (const [key, value] of Object.entries(item)) {
+    if (typeof value === "number" && value < 0) warn(key, `A negative amount for ${name} cannot be right.`);
+  }
+
+  const cal = num(item.cal);
+  const grams = num(item.g);
+  if (cal !== undefined && cal > MAX_ITEM_CALORIES) {
+    warn("cal", `${Math.round(cal)} kcal is a great deal for a single ${name}.`);
+  } else if (cal !== undefined && grams && cal > grams * MAX_KCAL_PER_GRAM) {
+    warn("cal", `${Math.round(cal)} kcal is more than ${Math.round(grams)} g of anything could hold.`);
+  }
+
+  for (const key of ["p", "c", "f", "fib"]) {
+    const value = num(item[key]);
+    if (value === undefined) continue;
+    if (value > MAX_ITEM_MACRO_GRAMS || (grams && value > grams)) {
+      warn(key, `${round1(value)} g seems implausible for ${name}.`);
+    }
+  }
+
+  const expected = macroCalories(item);
+  if (cal !== undefined && expected !== undefined && (cal > 0 || expected > 0)) {
+    const gap = cal - expected;
+    const allowed = Math.max(MIN_CALORIE_GAP, CALORIE_TOLERANCE * Math.max(cal, expected));
+    if (gap < -allowed || (gap > allowed && !ALCOHOL_PATTERN.test(name))) {
+      warn("cal", `${Math.round(cal)} kcal disagrees with the macros, which add up to about ${Math.round(expected)} kcal.`);
+    }
+  }
+
+  for (const [key, info] of Object.entries(MICRONUTRIENTS)) {
+    const value = num(item[key]);
+    if (value !== undefined && value > info.dv * MAX_DAILY_VALUE_MULTIPLE) {
+      warn(key, `${round1(value)} ${info.unit} of ${info.name} is far beyond what ${name} could provide.`);
+    }
+  }
+
+  return warnings;
+}
+
+export const checkItems = (items: Item[]) => items.flatMap((item, index) => checkItem(item, index));
+
+// Fix what can be fixed without guessing: negatives become zero, and
+// calories no plate could hold are recomputed from the macros when those
+// look sound. Everything else is left for the user, with a warning.
+export function validateItems<T extends Item>(items: T[]): { items: T[]; warnings: NutritionWarning[] } {
+  const corrections: NutritionWarning[] = [];
+
+  const corrected = items.map((original, index) => {
+    const item: Item = { ...original };
+    const name = label(item);
+
+    for (const key of Object.keys(item)) {
+      const value = item[key];
+      if (typeof value !== "number") continue;
+      if (!Number.isFinite(value)) {
+        delete item[key];
+      } else if (value < 0) {
+        item[key] = 0;
+        corrections.push({ item: index, field: key, message: `Set a negative amount for ${name} to zero.`, corrected: value });
+      }
+    }
+
+    const cal = num(item.cal);
+    const grams = num(item.g);
+    const expected = macroCalories(item);
+    const impossible = cal !== undefined && (cal > MAX_ITEM_CALORIES || (!!grams && cal > grams * MAX_KCAL_PER_GRAM));
+    const macrosSound = expected !== undefined && expected > 0 && expected <= MAX_ITEM_CALORIES &&
+      (!grams || expected <= grams * MAX_KCAL_PER_GRAM);
+    if (impossible && macrosSound) {
+      item.cal = Math.round(expected);
+      corrections.push({
+        item: index,
+        field: "cal",
+        message: `Recalculated ${name} from its macros: ${Math.round(cal)} kcal became ${item.cal} kcal.`,
+        corrected: cal,
+      });
+    }
+
+    return item as T;
+  });
+
+  return { items: corrected, warnings: [...corrections, ...checkItems(corrected)] };
+}
@@ -0,0 +1,65 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { analyze } from "../_shared/analysis.ts";
+import { getFoodLookup, getTranscriptionProvider, getUserRecipes, getVisionProvider } from "../_shared/providers.ts";
+import { isLanguage } from "../_shared/languages.ts";
+
+// Clients downscale before upload; anything bigger is almost certainly a mistake
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+const IMAGE_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+
+// Photo analysis. Expects multipart/form-data with an 'image' field and,
+// optionally, a typed 'text' description and/or a spoken one as 'audio',
+// and the user's 'language' (detected when absent).
+// Returns the same { transcript, items } shape as transcribe-and-analyze.
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const contentType = req.headers.get("content-type") || "";
+    if (!contentType.includes("multipart/form-data")) {
+      return jsonResponse({ error: "Expected multipart/form-data with an 'image' field" }, 400);
+    }
+
+    const formData = await req.formData();
+    const image = formData.get("image");
+    if (!(image instanceof Blob)) {
+      return jsonResponse({ error: "No image provided under 'image'" }, 400);
+    }
+    if (!IMAGE_TYPES.has(image.type)) {
+      return jsonResponse({ error: "Image must be JPEG, PNG or WebP" }, 400);
+    }
+    if (image.size > MAX_IMAGE_BYTES) {
+      return jsonResponse({ error: "Image is too large" }, 413);
+    }
+
+    const languageField = formData.get("language");
+    const language = isLanguage(languageField) ? languageField : undefined;
+
+    const parts: string[] = [];
+    const text = formData.get("text");
+    if (typeof text === "string" && text.trim()) parts.push(text.trim());
+
+    const audio = formData.get("audio");
+    if (audio instanceof Blob && audio.size > 0) {
+      const spoken = await getTranscriptionProvider().transcribe(audio, language);
+      if (spoken.trim()) parts.push(spoken.trim());
+    }
+    const description = parts.join("\n");
+
+    const images = [{ data: encodeBase64(new Uint8Array(await image.arrayBuffer())), mimeType: image.type }];
+    const result = await analyze(getVisionProvider(), description, getFoodLookup(req), { images, language, recipes: await getUserRecipes(req) });
+
+    return jsonResponse({ transcript: description, ...result });
+  } catch (error) {
+    console.error("analyze-photo error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,57 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { analyze, clarify } from "../_shared/analysis.ts";
+import { getAnalysisProvider, getFoodLookup, getUserRecipes } from "../_shared/providers.ts";
+import { isLanguage } from "../_shared/languages.ts";
+
+// Analysis step only, for typed entries and corrected transcripts.
+// Expects JSON { text } and returns the same { transcript, items } shape
+// as transcribe-and-analyze. With { text, clarify: { transcript, items,
+// questions } } the text is the user's answer to the analyzer's questions,
+// and only those items are re-analyzed. An optional 'language' sets the
+// language food names come back in. The caller's recipes are matched by name.
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const llm = getAnalysisProvider();
+
+    const contentType = req.headers.get("content-type") || "";
+    if (!contentType.includes("application/json")) {
+      return jsonResponse({ error: "Expected application/json with a 'text' field" }, 400);
+    }
+
+    const body = await req.json().catch(() => null);
+    const text = typeof body?.text === "string" ? body.text.trim() : "";
+    if (!text) {
+      return jsonResponse({ error: "Expected JSON body with a non-empty 'text' field" }, 400);
+    }
+
+    const language = isLanguage(body.language) ? body.language : undefined;
+    const recipes = await getUserRecipes(req);
+
+    const followUp = body.clarify;
+    if (followUp && typeof followUp === "object") {
+      if (!Array.isArray(followUp.items) || !followUp.items.length) {
+        return jsonResponse({ error: "Expected 'clarify.items' to list the items being revised" }, 400);
+      }
+      const request = {
+        transcript: typeof followUp.transcript === "string" ? followUp.transcript : "",
+        items: followUp.items,
+        questions: Array.isArray(followUp.questions) ? followUp.questions.filter((q: unknown) => typeof q === "string") : [],
+        answer: text,
+      };
+      return jsonResponse({ transcript: text, ...(await clarify(llm, request, getFoodLookup(req), { language, recipes })) });
+    }
+
+    return jsonResponse({ transcript: text, ...(await analyze(llm, text, getFoodLookup(req), { language, recipes })) });
+  } catch (error) {
+    console.error("analyze-text error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,49 @@
+-- Store each analyzed item of a meal individually
+CREATE TABLE public.meal_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  meal_id uuid NOT NULL REFERENCES public.meals(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  qty text NOT NULL,
+  name text NOT NULL,
+
+  -- Macronutrients
+  calories numeric(8,2),
+  protein numeric(8,2),
+  carbs numeric(8,2),
+  fat numeric(8,2),
+  fiber numeric(8,2),
+
+  -- Micronutrients keyed as [abbr]_[unit], e.g. k_mg
+  micronutrients jsonb DEFAULT '{}',
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX meal_items_meal_id_idx ON public.meal_items (meal_id, position);
+
+-- Enable RLS on meal items
+ALTER TABLE public.meal_items ENABLE ROW LEVEL SECURITY;
+
+-- Meal items policies (mirror meals)
+CREATE POLICY "Users can view their own meal items" 
+  ON public.meal_items FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own meal items" 
+  ON public.meal_items FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own meal items" 
+  ON public.meal_items FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own meal items" 
+  ON public.meal_items FOR DELETE 
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_meal_items_updated_at
+  BEFORE UPDATE ON public.meal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
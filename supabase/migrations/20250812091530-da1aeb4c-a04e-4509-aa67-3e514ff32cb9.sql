@@ -0,0 +1,31 @@
+-- Store each user's IANA time zone so calendar days follow their local midnight
+ALTER TABLE public.profiles ADD COLUMN timezone text;
+
+-- logged_date is now derived from logged_at in the user's zone instead of
+-- the database's CURRENT_DATE (UTC), which put evening meals on tomorrow
+ALTER TABLE public.meals ALTER COLUMN logged_date DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION public.set_meal_logged_date()
+RETURNS TRIGGER 
+LANGUAGE plpgsql 
+SECURITY DEFINER 
+SET search_path = public
+AS $$
+DECLARE
+  tz text;
+BEGIN
+  IF NEW.logged_date IS NULL THEN
+    SELECT timezone INTO tz FROM public.profiles WHERE user_id = NEW.user_id;
+    IF tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+      tz := 'UTC';
+    END IF;
+    NEW.logged_date := (COALESCE(NEW.logged_at, now()) AT TIME ZONE tz)::date;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_meals_logged_date
+  BEFORE INSERT ON public.meals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_meal_logged_date();
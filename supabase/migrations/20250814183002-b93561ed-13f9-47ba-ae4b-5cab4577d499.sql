@@ -0,0 +1,7 @@
+-- Daily nutrition targets per user (null = no target set)
+ALTER TABLE public.profiles
+  ADD COLUMN calorie_goal numeric(8,2),
+  ADD COLUMN protein_goal numeric(8,2),
+  ADD COLUMN carbs_goal numeric(8,2),
+  ADD COLUMN fat_goal numeric(8,2),
+  ADD COLUMN fiber_goal numeric(8,2);
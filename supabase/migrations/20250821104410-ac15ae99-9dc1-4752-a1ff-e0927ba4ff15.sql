@@ -0,0 +1,20 @@
+-- Meal occasion, inferred by the analyzer or from the time of day
+ALTER TABLE public.meals
+  ADD COLUMN meal_type text CHECK (meal_type IN ('breakfast', 'lunch', 'dinner', 'snack'));
+
+-- Backfill existing meals from their local time of day
+UPDATE public.meals m
+SET meal_type = CASE
+  WHEN local_time >= '05:00' AND local_time < '10:30' THEN 'breakfast'
+  WHEN local_time >= '11:00' AND local_time < '14:30' THEN 'lunch'
+  WHEN local_time >= '17:00' AND local_time < '21:30' THEN 'dinner'
+  ELSE 'snack'
+END
+FROM (
+  SELECT meals.id, (meals.logged_at AT TIME ZONE COALESCE(tz.name, 'UTC'))::time AS local_time
+  FROM public.meals
+  LEFT JOIN public.profiles p ON p.user_id = meals.user_id
+  -- Unrecognised zones fall back to UTC, as in set_meal_logged_date()
+  LEFT JOIN pg_timezone_names tz ON tz.name = p.timezone
+) AS local
+WHERE local.id = m.id AND m.meal_type IS NULL;
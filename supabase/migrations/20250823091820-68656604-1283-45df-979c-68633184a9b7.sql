@@ -0,0 +1,20 @@
+-- Per-day totals for the ledger calendar and trend charts, summed in the
+-- database rather than from every meal row on the client.
+-- security_invoker keeps the meals RLS policies in force for callers.
+CREATE VIEW public.daily_nutrition
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  logged_date,
+  COALESCE(SUM(total_calories), 0) AS calories,
+  COALESCE(SUM(protein), 0) AS protein,
+  COALESCE(SUM(carbs), 0) AS carbs,
+  COALESCE(SUM(fat), 0) AS fat,
+  COALESCE(SUM(fiber), 0) AS fiber,
+  COUNT(*)::integer AS meal_count
+FROM public.meals
+GROUP BY user_id, logged_date;
+
+CREATE INDEX IF NOT EXISTS idx_meals_user_logged_date ON public.meals (user_id, logged_date);
+
+GRANT SELECT ON public.daily_nutrition TO authenticated;
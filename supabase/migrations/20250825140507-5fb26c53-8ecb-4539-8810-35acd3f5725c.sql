@@ -0,0 +1,5 @@
+-- Sex and birth year pick the micronutrient targets (RDA) for the user.
+-- Both optional; without them the app falls back to FDA Daily Values.
+ALTER TABLE public.profiles
+  ADD COLUMN sex text CHECK (sex IN ('female', 'male')),
+  ADD COLUMN birth_year integer CHECK (birth_year BETWEEN 1900 AND 2100);
@@ -0,0 +1,42 @@
+-- Favourite foods and meals the user can log again in one tap
+CREATE TABLE public.saved_foods (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+
+  -- TokenItem templates, one per food; a single entry for a plain food
+  items jsonb NOT NULL DEFAULT '[]',
+  meal_type text CHECK (meal_type IN ('breakfast', 'lunch', 'dinner', 'snack')),
+
+  use_count integer NOT NULL DEFAULT 0,
+  last_used_at timestamp with time zone,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX saved_foods_user_id_idx ON public.saved_foods (user_id, use_count DESC);
+
+-- Enable RLS on saved foods
+ALTER TABLE public.saved_foods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved foods" 
+  ON public.saved_foods FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved foods" 
+  ON public.saved_foods FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved foods" 
+  ON public.saved_foods FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved foods" 
+  ON public.saved_foods FOR DELETE 
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_foods_updated_at
+  BEFORE UPDATE ON public.saved_foods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
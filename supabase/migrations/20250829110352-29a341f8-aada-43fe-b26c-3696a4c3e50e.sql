@@ -0,0 +1,85 @@
+-- Reference food composition data (USDA FoodData Central, Open Food Facts),
+-- loaded with scripts/import-foods.mjs. All amounts are per 100 g.
+CREATE TABLE public.foods (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source text NOT NULL CHECK (source IN ('usda', 'off')),
+  source_id text NOT NULL,
+  name text NOT NULL,
+  brand text,
+
+  -- Macronutrients per 100 g
+  calories numeric(8,2),
+  protein numeric(8,2),
+  carbs numeric(8,2),
+  fat numeric(8,2),
+  fiber numeric(8,2),
+
+  -- Micronutrients per 100 g, keyed as in the app's registry (e.g. fe_mg)
+  micronutrients jsonb NOT NULL DEFAULT '{}',
+
+  -- Typical serving, when the source provides one
+  serving_g numeric(8,2),
+  serving_desc text,
+
+  search tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', name || ' ' || coalesce(brand, ''))
+  ) STORED,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  UNIQUE (source, source_id)
+);
+
+CREATE INDEX foods_search_idx ON public.foods USING GIN (search);
+
+-- Shared reference data: readable by everyone signed in, written only by the importer
+ALTER TABLE public.foods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view foods" 
+  ON public.foods FOR SELECT 
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_foods_updated_at
+  BEFORE UPDATE ON public.foods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Type-ahead search: every word must prefix-match, best rank then shortest name first
+CREATE OR REPLACE FUNCTION public.search_foods(search_text text, max_results integer DEFAULT 10)
+RETURNS TABLE (
+  id uuid,
+  source text,
+  name text,
+  brand text,
+  calories numeric,
+  protein numeric,
+  carbs numeric,
+  fat numeric,
+  fiber numeric,
+  micronutrients jsonb,
+  serving_g numeric,
+  serving_desc text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', string_agg(word || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(search_text), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  )
+  SELECT f.id, f.source, f.name, f.brand, f.calories, f.protein, f.carbs, f.fat, f.fiber,
+         f.micronutrients, f.serving_g, f.serving_desc
+  FROM public.foods f, q
+  WHERE f.search @@ q.query
+  ORDER BY ts_rank(f.search, q.query) DESC, length(f.name)
+  LIMIT least(max_results, 50);
+$$;
+
+-- Which reference food an item was matched to, and the weight it was scaled by
+ALTER TABLE public.meal_items
+  ADD COLUMN food_id uuid REFERENCES public.foods(id) ON DELETE SET NULL,
+  ADD COLUMN grams numeric(8,2);
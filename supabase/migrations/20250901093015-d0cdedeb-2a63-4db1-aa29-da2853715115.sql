@@ -0,0 +1,18 @@
+-- Photos of logged meals, stored privately under <user_id>/<file>
+ALTER TABLE public.meals ADD COLUMN photo_path text;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('meal-photos', 'meal-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own meal photos"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'meal-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own meal photos"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'meal-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own meal photos"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'meal-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,4 @@
+-- Language for speech recognition, food names and the interface.
+-- NULL means detect it: from the speech for analysis, from the browser for the UI.
+ALTER TABLE public.profiles
+  ADD COLUMN language text CHECK (language IN ('en', 'es', 'de'));
@@ -0,0 +1,57 @@
+-- Homemade dishes: ingredients entered once, logged later by the portion
+CREATE TABLE public.recipes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+
+  -- TokenItem ingredients for the whole batch
+  ingredients jsonb NOT NULL DEFAULT '[]',
+
+  -- Yield: servings, total cooked weight, or both
+  servings numeric(8,2) CHECK (servings > 0),
+  total_grams numeric(8,2) CHECK (total_grams > 0),
+  CHECK (servings IS NOT NULL OR total_grams IS NOT NULL),
+
+  -- Nutrition of one serving, computed from the ingredients on save.
+  -- Without a serving count, a serving is 100 g.
+  serving_g numeric(8,2),
+  calories numeric(8,2),
+  protein numeric(8,2),
+  carbs numeric(8,2),
+  fat numeric(8,2),
+  fiber numeric(8,2),
+  micronutrients jsonb NOT NULL DEFAULT '{}',
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX recipes_user_id_idx ON public.recipes (user_id, name);
+
+-- Enable RLS on recipes
+ALTER TABLE public.recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recipes"
+  ON public.recipes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own recipes"
+  ON public.recipes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recipes"
+  ON public.recipes FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recipes"
+  ON public.recipes FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recipes_updated_at
+  BEFORE UPDATE ON public.recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which recipe an item was logged from; its numbers are a share of the batch
+ALTER TABLE public.meal_items
+  ADD COLUMN recipe_id uuid REFERENCES public.recipes(id) ON DELETE SET NULL;
@@ -0,0 +1,42 @@
+-- Body measurements, at most one entry per day. Stored in metric units;
+-- the app converts for users who prefer pounds and inches.
+CREATE TABLE public.body_metrics (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  measured_date date NOT NULL,
+  weight_kg numeric(6,2) CHECK (weight_kg > 0),
+  body_fat_pct numeric(5,2) CHECK (body_fat_pct > 0 AND body_fat_pct < 100),
+  waist_cm numeric(6,2) CHECK (waist_cm > 0),
+  CHECK (weight_kg IS NOT NULL OR body_fat_pct IS NOT NULL OR waist_cm IS NOT NULL),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, measured_date)
+);
+
+-- Enable RLS on body_metrics
+ALTER TABLE public.body_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own body metrics"
+  ON public.body_metrics FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own body metrics"
+  ON public.body_metrics FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own body metrics"
+  ON public.body_metrics FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own body metrics"
+  ON public.body_metrics FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_body_metrics_updated_at
+  BEFORE UPDATE ON public.body_metrics
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 'metric' (kg, cm) or 'imperial' (lb, in); null means metric
+ALTER TABLE public.profiles
+  ADD COLUMN units text CHECK (units IN ('metric', 'imperial'));
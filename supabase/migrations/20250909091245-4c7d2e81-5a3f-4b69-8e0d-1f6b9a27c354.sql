@@ -0,0 +1,20 @@
+-- Meal items may only be attached to the user's own meals, not merely
+-- carry their user_id
+DROP POLICY "Users can insert their own meal items" ON public.meal_items;
+
+CREATE POLICY "Users can insert their own meal items" 
+  ON public.meal_items FOR INSERT 
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.meals m WHERE m.id = meal_id AND m.user_id = auth.uid())
+  );
+
+DROP POLICY "Users can update their own meal items" ON public.meal_items;
+
+CREATE POLICY "Users can update their own meal items" 
+  ON public.meal_items FOR UPDATE 
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.meals m WHERE m.id = meal_id AND m.user_id = auth.uid())
+  );